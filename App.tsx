@@ -1,19 +1,55 @@
 import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
-import { RGBColor, Layer, Settings, ProcessedData, GeometryData } from './types';
+import { RGBColor, Layer, Settings, ProcessedData, MeshSettings, GeometryData, Filament, PaletteSource, ColorSpace, GeometryMode, DitherMethod, ReliefMode, OutlineShape, HangerType, FrameSettings, TextLabel, TextMode, ProjectSnapshot, PaletteAssignment, RasterImage, PreprocessSettings, BackgroundRemoval, CropRect } from './types';
+import { withBaseThickness, recalculateLayerHeights, snapLayerHeight, getLayerHeightIssue } from './utils/layers';
+import { randomSeed } from './utils/random';
+import { hexToRgb, rgbToHex } from './utils/color';
+import { DEFAULT_TD, loadFilamentLibrary, saveFilamentLibrary, createFilament, simulateLayerColors, filamentToLayerColor } from './utils/filaments';
+import { createReliefWorkerClient, isCancelledError, ReliefWorkerClient } from './utils/reliefWorkerClient';
+import { buildSwapPlan, formatSwapPlanText, formatSwapPlanJson, formatSwapPlanGcode } from './utils/swapPlan';
+import { validateMesh, describeMeshIssues } from './utils/meshValidation';
+import { DEFAULT_SETTINGS, DEFAULT_PREPROCESS, DEFAULT_LABEL, MAX_WORKING_DIM, getWorkingResolution } from './utils/settings';
+import { generateSTL } from './utils/stl';
+import { isErrorDiffusion } from './utils/dither';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './utils/project';
+import { History, createHistory, currentEntry, pushHistory, canUndo, canRedo, undoHistory, redoHistory } from './utils/history';
+import { loadSession, saveSession } from './utils/sessionStore';
+import { togglePinnedColor, mergeLayers, addLayer, splitLayer, collectLayerPixels } from './utils/palette';
+import { renderPaletteImage, resizeRaster } from './utils/raster';
+import { preprocessImage, transformRaster, transformedSize, cropFromDrag } from './utils/preprocess';
+import { HeightMapTarget, stampBrush, strokeBrush, floodFill } from './utils/brush';
+import { assignHeightBands, resolveLayerIds } from './utils/depth';
+import { resolveOutlineMask } from './utils/outline';
+import { frameLayerIndex, resolveFrameLayout } from './utils/frame';
+import { PIXEL_FONT, labelLayerIndex, labelTopIndex, resolveLabelMasks } from './utils/text';
 import { Canvas, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { OrbitControls, Stage } from '@react-three/drei';
-import { Upload, Download, Cog, Loader, Palette, Ruler, ArrowUp, ArrowDown, Github, Star } from 'lucide-react';
+import { Upload, Download, Cog, Loader, Palette, Ruler, ArrowUp, ArrowDown, Github, Star, FileText, Dices, Layers, Plus, Trash2, Save, FolderOpen, Undo2, Redo2, Pin, PinOff, Split, RefreshCw, Brush, PaintBucket, Eraser, Crop, RotateCw, FlipHorizontal2, FlipVertical2, Pipette, SlidersHorizontal } from 'lucide-react';
 
 // --- HELPER FUNCTIONS ---
 
-// Color distance calculation
-const colorDistance = (c1: RGBColor, c2: RGBColor): number => {
-  return Math.sqrt(Math.pow(c1[0] - c2[0], 2) + Math.pow(c1[1] - c2[1], 2) + Math.pow(c1[2] - c2[2], 2));
-};
-
-const rgbToHex = (r: number, g: number, b: number): string => {
-  return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase();
+// 按高度生成颜色条带贴图：纹理坐标 u = z / depth，每个纹素取该高度处实际露出的耗材颜色
+const COLOR_MAP_RESOLUTION = 2048;
+
+const createLayerColorMap = (layers: Layer[], depth: number): THREE.DataTexture => {
+  const data = new Uint8Array(COLOR_MAP_RESOLUTION * 4);
+  for (let t = 0; t < COLOR_MAP_RESOLUTION; t++) {
+    // 取纹素下边缘的高度，保证恰好落在换色高度上的面显示下面那一层的颜色
+    const z = (t / COLOR_MAP_RESOLUTION) * depth;
+    const layer = layers.find(l => l.height >= z) ?? layers[layers.length - 1];
+    data[t * 4] = layer.color[0];
+    data[t * 4 + 1] = layer.color[1];
+    data[t * 4 + 2] = layer.color[2];
+    data[t * 4 + 3] = 255;
+  }
+  const texture = new THREE.DataTexture(data, COLOR_MAP_RESOLUTION, 1, THREE.RGBAFormat);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+  return texture;
 };
 
 
@@ -87,29 +123,81 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onImageUpload, disabled })
   );
 };
 
+interface FilamentLibraryEditorProps {
+  filaments: Filament[];
+  onChange: (filaments: Filament[]) => void;
+}
+
+const FilamentLibraryEditor: React.FC<FilamentLibraryEditorProps> = ({ filaments, onChange }) => {
+  const updateFilament = (id: string, patch: Partial<Filament>) => {
+    onChange(filaments.map(f => f.id === id ? { ...f, ...patch } : f));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">TD（透光距离）：该耗材完全不透光所需的厚度，数值越大越透光</p>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
+        {filaments.map(filament => (
+          <div key={filament.id} className="flex items-center space-x-2 bg-gray-700/50 p-2 rounded-md">
+            <input
+              type="color"
+              value={filament.hex}
+              onChange={e => updateFilament(filament.id, { hex: e.target.value.toUpperCase() })}
+              className="w-8 h-8 rounded border border-gray-500 cursor-pointer bg-transparent flex-shrink-0"
+              title="耗材颜色"
+            />
+            <input
+              type="text"
+              value={filament.name}
+              onChange={e => updateFilament(filament.id, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm"
+              title="耗材名称"
+            />
+            <input
+              type="number"
+              value={filament.td}
+              step="0.1"
+              min="0.1"
+              onChange={e => updateFilament(filament.id, { td: parseFloat(e.target.value) || 0 })}
+              className="w-16 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-right text-sm"
+              title="透光距离 TD (mm)"
+            />
+            <button
+              onClick={() => onChange(filaments.filter(f => f.id !== filament.id))}
+              className="p-1 bg-gray-600 hover:bg-red-600 rounded transition-colors"
+              title="删除耗材"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onChange([...filaments, createFilament('新耗材', '#FFFFFF', 2)])}
+        className="w-full bg-gray-600 hover:bg-gray-500 text-sm py-1 px-2 rounded-md transition-colors flex items-center justify-center"
+      >
+        <Plus size={14} className="mr-1" /> 添加耗材
+      </button>
+    </div>
+  );
+};
+
 // --- CORE LOGIC (OPTIMIZED) ---
 
-const processImage = (imageSrc: string, settings: Settings): Promise<ProcessedData> => {
+// 原图解码尺寸上限，超大照片先按比例缩小，裁剪和旋转仍有足够的精度
+const MAX_SOURCE_DIM = 4096;
+
+// 在主线程解码图片，返回原始像素
+const decodeImage = (imageSrc: string): Promise<RasterImage> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
     img.onload = () => {
       const canvas = document.createElement('canvas');
-      const MAX_DIM = 256;
-      let { width, height } = img;
+      const scale = Math.min(1, MAX_SOURCE_DIM / Math.max(img.width, img.height));
+      const width = Math.max(1, Math.round(img.width * scale));
+      const height = Math.max(1, Math.round(img.height * scale));
 
-      if (width > height) {
-        if (width > MAX_DIM) {
-          height = Math.round(height * (MAX_DIM / width));
-          width = MAX_DIM;
-        }
-      } else {
-        if (height > MAX_DIM) {
-          width = Math.round(width * (MAX_DIM / height));
-          height = MAX_DIM;
-        }
-      }
-      
       canvas.width = width;
       canvas.height = height;
       const ctx = canvas.getContext('2d');
@@ -118,337 +206,43 @@ const processImage = (imageSrc: string, settings: Settings): Promise<ProcessedDa
           return;
       }
       ctx.drawImage(img, 0, 0, width, height);
-      const imageData = ctx.getImageData(0, 0, width, height);
-      const pixels: RGBColor[] = [];
-      for (let i = 0; i < imageData.data.length; i += 4) {
-        pixels.push([imageData.data[i], imageData.data[i + 1], imageData.data[i + 2]]);
-      }
-
-      // K-Means clustering with sampling for performance
-      const SAMPLE_SIZE = 10000;
-      let samplePixels = pixels;
-      if (pixels.length > SAMPLE_SIZE) {
-          samplePixels = [];
-          const step = Math.floor(pixels.length / SAMPLE_SIZE);
-          for (let i = 0; i < SAMPLE_SIZE; i++) {
-            samplePixels.push(pixels[(i * step) % pixels.length]);
-          }
-      }
-      
-      let centroids: RGBColor[] = [];
-      const usedIndices = new Set<number>();
-      for (let i = 0; i < settings.numColors; i++) {
-          let index;
-          do {
-              index = Math.floor(Math.random() * samplePixels.length);
-          } while (usedIndices.has(index));
-          usedIndices.add(index);
-          centroids.push(samplePixels[index]);
-      }
-      
-      const sampleAssignments = new Array(samplePixels.length);
-      const MAX_ITERATIONS = 30;
-
-      for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
-        for (let p = 0; p < samplePixels.length; p++) {
-          let minDist = Infinity;
-          let bestCentroid = 0;
-          for (let c = 0; c < centroids.length; c++) {
-            const dist = colorDistance(samplePixels[p], centroids[c]);
-            if (dist < minDist) {
-              minDist = dist;
-              bestCentroid = c;
-            }
-          }
-          sampleAssignments[p] = bestCentroid;
-        }
-
-        const newCentroids: RGBColor[] = Array.from({ length: settings.numColors }, () => [0, 0, 0]);
-        const counts = new Array(settings.numColors).fill(0);
-        for (let p = 0; p < samplePixels.length; p++) {
-          const cIndex = sampleAssignments[p];
-          newCentroids[cIndex][0] += samplePixels[p][0];
-          newCentroids[cIndex][1] += samplePixels[p][1];
-          newCentroids[cIndex][2] += samplePixels[p][2];
-          counts[cIndex]++;
-        }
-
-        let moved = false;
-        for (let c = 0; c < centroids.length; c++) {
-          if (counts[c] > 0) {
-            const newCentroid: RGBColor = [
-                Math.round(newCentroids[c][0] / counts[c]),
-                Math.round(newCentroids[c][1] / counts[c]),
-                Math.round(newCentroids[c][2] / counts[c])
-            ];
-            if(colorDistance(newCentroid, centroids[c]) > 1){
-                moved = true;
-            }
-            centroids[c] = newCentroid;
-          } else {
-            const newIndex = Math.floor(Math.random() * samplePixels.length);
-            centroids[c] = samplePixels[newIndex];
-            moved = true;
-          }
-        }
-        if(!moved) break;
-      }
-      
-      const unsortedCentroids = [...centroids];
-      const brightness = (c: RGBColor) => 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2];
-      centroids.sort((a, b) => brightness(a) - brightness(b));
-
-      const processedImageData = ctx.createImageData(width, height);
-      const heightMap = new Uint8Array(pixels.length);
-
-      const colorToSortedIndexMap = new Map<string, number>();
-      centroids.forEach((c, index) => {
-        colorToSortedIndexMap.set(JSON.stringify(c), index);
-      });
-
-      const findClosestColor = (color: RGBColor): RGBColor => {
-          let minDist = Infinity;
-          let bestCentroid: RGBColor = unsortedCentroids[0];
-          for (const centroid of unsortedCentroids) {
-              const dist = colorDistance(color, centroid);
-              if (dist < minDist) {
-                  minDist = dist;
-                  bestCentroid = centroid;
-              }
-          }
-          return bestCentroid;
-      };
-
-      // 增强边缘检测：保护边缘和深色线条
-      const edgeMap = new Float32Array(pixels.length);
-      const darkLineMap = new Float32Array(pixels.length);
-      
-      if (settings.edgePreservation) {
-        // 第一步：Sobel边缘检测
-        for (let y = 1; y < height - 1; y++) {
-          for (let x = 1; x < width - 1; x++) {
-            const idx = y * width + x;
-            
-            // 计算灰度值用于边缘检测
-            const getGray = (i: number): number => {
-              if (i < 0 || i >= pixels.length) return 0;
-              const p = pixels[i];
-              return 0.299 * p[0] + 0.587 * p[1] + 0.114 * p[2];
-            };
-            
-            // Sobel算子 - 检测边缘
-            const gx = 
-              -getGray((y-1)*width + (x-1)) + getGray((y-1)*width + (x+1)) +
-              -2*getGray(y*width + (x-1)) + 2*getGray(y*width + (x+1)) +
-              -getGray((y+1)*width + (x-1)) + getGray((y+1)*width + (x+1));
-            
-            const gy = 
-              -getGray((y-1)*width + (x-1)) - 2*getGray((y-1)*width + x) - getGray((y-1)*width + (x+1)) +
-              getGray((y+1)*width + (x-1)) + 2*getGray((y+1)*width + x) + getGray((y+1)*width + (x+1));
-            
-            // 边缘强度 - 使用更敏感的阈值
-            const magnitude = Math.sqrt(gx * gx + gy * gy);
-            edgeMap[idx] = Math.min(1, magnitude / 200); // 降低阈值，更敏感
-            
-            // 第二步：检测深色像素（可能是线条）
-            const currentGray = getGray(idx);
-            const avgNeighborGray = (
-              getGray((y-1)*width + x) + getGray((y+1)*width + x) +
-              getGray(y*width + (x-1)) + getGray(y*width + (x+1))
-            ) / 4;
-            
-            // 如果当前像素比周围暗很多，标记为深色线条
-            const isDarkLine = currentGray < 100 && (avgNeighborGray - currentGray) > 30;
-            darkLineMap[idx] = isDarkLine ? 1.0 : 0.0;
-          }
-        }
-        
-        // 第三步：膨胀操作，扩展边缘保护区域
-        const expandedEdgeMap = new Float32Array(pixels.length);
-        for (let y = 1; y < height - 1; y++) {
-          for (let x = 1; x < width - 1; x++) {
-            const idx = y * width + x;
-            let maxEdge = edgeMap[idx];
-            
-            // 检查周围3x3区域的最大值
-            for (let dy = -1; dy <= 1; dy++) {
-              for (let dx = -1; dx <= 1; dx++) {
-                const nIdx = (y + dy) * width + (x + dx);
-                if (nIdx >= 0 && nIdx < pixels.length) {
-                  maxEdge = Math.max(maxEdge, edgeMap[nIdx]);
-                }
-              }
-            }
-            
-            // 合并边缘和深色线条检测结果
-            expandedEdgeMap[idx] = Math.max(maxEdge, darkLineMap[idx]);
-          }
-        }
-        
-        // 使用膨胀后的边缘图
-        for (let i = 0; i < pixels.length; i++) {
-          edgeMap[i] = expandedEdgeMap[i];
-        }
-      }
-
-      if (settings.dithering) {
-        const pixelsFloat = new Float32Array(imageData.data.length);
-        for(let i=0; i < imageData.data.length; i += 4) {
-            pixelsFloat[i]   = imageData.data[i];
-            pixelsFloat[i+1] = imageData.data[i+1];
-            pixelsFloat[i+2] = imageData.data[i+2];
-        }
-
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const i = (y * width + x) * 4;
-                const i_1d = y * width + x;
-                
-                const oldColor: RGBColor = [pixelsFloat[i], pixelsFloat[i+1], pixelsFloat[i+2]];
-                const newColor = findClosestColor(oldColor);
-                
-                const sortedIndex = colorToSortedIndexMap.get(JSON.stringify(newColor)) ?? 0;
-
-                processedImageData.data[i]     = newColor[0];
-                processedImageData.data[i + 1] = newColor[1];
-                processedImageData.data[i + 2] = newColor[2];
-                processedImageData.data[i + 3] = 255;
-                heightMap[i_1d] = sortedIndex;
-
-                // 增强边缘保护：在边缘和深色线条区域完全禁用抖动
-                const edgeStrength = settings.edgePreservation ? edgeMap[i_1d] : 0;
-                // 如果边缘强度超过0.3，完全禁用抖动；否则逐渐减弱
-                const ditherStrength = edgeStrength > 0.3 ? 0 : (1 - edgeStrength * 3);
-
-                const errR = (oldColor[0] - newColor[0]) * ditherStrength;
-                const errG = (oldColor[1] - newColor[1]) * ditherStrength;
-                const errB = (oldColor[2] - newColor[2]) * ditherStrength;
-
-                const distributeError = (dx: number, dy: number, factor: number) => {
-                    if (x + dx >= 0 && x + dx < width && y + dy >= 0 && y + dy < height) {
-                        const ni = ((y + dy) * width + (x + dx)) * 4;
-                        pixelsFloat[ni]     = Math.max(0, Math.min(255, pixelsFloat[ni]     + errR * factor));
-                        pixelsFloat[ni + 1] = Math.max(0, Math.min(255, pixelsFloat[ni + 1] + errG * factor));
-                        pixelsFloat[ni + 2] = Math.max(0, Math.min(255, pixelsFloat[ni + 2] + errB * factor));
-                    }
-                };
-
-                distributeError(1, 0, 7 / 16);
-                distributeError(-1, 1, 3 / 16);
-                distributeError(0, 1, 5 / 16);
-                distributeError(1, 1, 1 / 16);
-            }
-        }
-      } else {
-        for (let i = 0; i < pixels.length; i++) {
-            const originalPixelColor = pixels[i];
-            const newColor = findClosestColor(originalPixelColor);
-            const sortedIndex = colorToSortedIndexMap.get(JSON.stringify(newColor)) ?? 0;
-
-            processedImageData.data[i * 4]     = newColor[0];
-            processedImageData.data[i * 4 + 1] = newColor[1];
-            processedImageData.data[i * 4 + 2] = newColor[2];
-            processedImageData.data[i * 4 + 3] = 255;
-            heightMap[i] = sortedIndex;
-        }
-      }
-
-      // 第一层0.64mm，其余层每层增加0.16mm
-      const firstLayerThickness = 0.64;
-      const normalLayerThickness = 0.16;
-      let cumulativeHeight = 0;
-      
-      const initialLayers: Layer[] = centroids.map((c, i) => {
-        if (i === 0) {
-          cumulativeHeight = firstLayerThickness;
-        } else {
-          cumulativeHeight += normalLayerThickness;
-        }
-        return {
-          id: i,
-          color: c,
-          hex: rgbToHex(c[0], c[1], c[2]),
-          height: parseFloat(cumulativeHeight.toFixed(2)), // 保留2位小数
-        };
-      });
-
-      resolve({ layers: initialLayers, processedImage: processedImageData, heightMap, width, height });
+      resolve(ctx.getImageData(0, 0, width, height));
     };
     img.onerror = reject;
     img.src = imageSrc;
   });
 };
 
-const generateSTL = (geometryData: GeometryData, settings: Settings): Blob => {
-    const { geometry } = geometryData;
-    const positions = geometry.attributes.position.array;
-    const index = geometry.index;
-    
-    if (!index) {
-        throw new Error("Geometry must have an index");
-    }
-    
-    const indices = index.array;
-    const triangles = indices.length / 3;
-
-    const buffer = new ArrayBuffer(84 + triangles * 50);
-    const view = new DataView(buffer);
-    let offset = 80;
+// 解码并预处理图片，缩放到工作分辨率，量化计算交给 Worker；
+// 传入 size 时按已有处理结果的尺寸缩放，保证像素与高度图一一对应
+const loadImageData = async (imageSrc: string, settings: Settings, size?: { width: number; height: number }): Promise<RasterImage> => {
+  const source = await decodeImage(imageSrc);
+  const oriented = transformedSize(source.width, source.height, settings.preprocess);
+  return preprocessImage(source, settings.preprocess, size ?? getWorkingResolution(oriented.width, oriented.height, settings));
+};
 
-    view.setUint32(offset, triangles, true);
-    offset += 4;
+// 深度图只做与原图相同的裁剪、旋转和翻转，再缩放到原图的工作分辨率
+const loadDepthImage = async (depthSrc: string, settings: Settings, size: { width: number; height: number }): Promise<RasterImage> => {
+  const oriented = transformRaster(await decodeImage(depthSrc), settings.preprocess);
+  return resizeRaster(oriented, size.width, size.height);
+};
 
-    for (let i = 0; i < triangles; i++) {
-        // Get vertex indices for this triangle
-        const i0 = indices[i * 3];
-        const i1 = indices[i * 3 + 1];
-        const i2 = indices[i * 3 + 2];
-        
-        // Get three vertices of the triangle
-        const v1 = new THREE.Vector3(
-            positions[i0 * 3],
-            positions[i0 * 3 + 1],
-            positions[i0 * 3 + 2]
-        );
-        const v2 = new THREE.Vector3(
-            positions[i1 * 3],
-            positions[i1 * 3 + 1],
-            positions[i1 * 3 + 2]
-        );
-        const v3 = new THREE.Vector3(
-            positions[i2 * 3],
-            positions[i2 * 3 + 1],
-            positions[i2 * 3 + 2]
-        );
-        
-        // Calculate normal from vertices (right-hand rule)
-        const edge1 = new THREE.Vector3().subVectors(v2, v1);
-        const edge2 = new THREE.Vector3().subVectors(v3, v1);
-        const normal = new THREE.Vector3().crossVectors(edge1, edge2).normalize();
-        
-        // Write Normal
-        view.setFloat32(offset, normal.x, true); offset += 4;
-        view.setFloat32(offset, normal.y, true); offset += 4;
-        view.setFloat32(offset, normal.z, true); offset += 4;
-        
-        // Write Vertices
-        view.setFloat32(offset, v1.x, true); offset += 4;
-        view.setFloat32(offset, v1.y, true); offset += 4;
-        view.setFloat32(offset, v1.z, true); offset += 4;
-        
-        view.setFloat32(offset, v2.x, true); offset += 4;
-        view.setFloat32(offset, v2.y, true); offset += 4;
-        view.setFloat32(offset, v2.z, true); offset += 4;
-        
-        view.setFloat32(offset, v3.x, true); offset += 4;
-        view.setFloat32(offset, v3.y, true); offset += 4;
-        view.setFloat32(offset, v3.z, true); offset += 4;
-        
-        // Attribute byte count
-        view.setUint16(offset, 0, true); offset += 2;
+const getWorkerClient = (ref: React.MutableRefObject<ReliefWorkerClient | null>): ReliefWorkerClient => {
+    if (!ref.current) {
+        ref.current = createReliefWorkerClient();
     }
+    return ref.current;
+};
 
-    return new Blob([buffer], { type: 'application/sla' });
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
 };
 
 // --- 3D Components ---
@@ -459,55 +253,186 @@ const Model: React.FC<{ geometryData: GeometryData | null }> = ({ geometryData }
     if (!geometryData) return null;
 
     return (
-        <mesh ref={mesh} geometry={geometryData.geometry}>
-            <meshStandardMaterial color="#cccccc" flatShading={false} />
+        // 模型以 Z 轴为高度方向，旋转后平躺在场景中
+        <mesh ref={mesh} geometry={geometryData.geometry} rotation={[-Math.PI / 2, 0, 0]}>
+            <meshStandardMaterial map={geometryData.colorMap} flatShading={false} />
         </mesh>
     );
 };
 
 const Controls: React.FC = () => {
-    return <OrbitControls />;
+    return <OrbitControls makeDefault />;
 }
 
 // --- MAIN APP COMPONENT ---
 
+// 参数或图层连续变化（拖动滑块、输入数字）时合并为一条历史记录
+const HISTORY_DEBOUNCE_MS = 500;
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+
+const isSameSnapshot = (a: ProjectSnapshot, b: ProjectSnapshot): boolean =>
+  a.imageSrc === b.imageSrc &&
+  a.depthSrc === b.depthSrc &&
+  a.settings === b.settings &&
+  a.processedData === b.processedData &&
+  a.layers === b.layers &&
+  a.userOrderedLayers === b.userOrderedLayers;
+
+// 画笔和填充把像素改为所选图层，擦除改为最底层（第一个打印的颜色）
+type BrushTool = 'paint' | 'fill' | 'erase';
+
+const MAX_BRUSH_SIZE = 32;
+
+// 原图上的交互工具：框选裁剪区域，或吸取背景颜色
+type SourceTool = 'crop' | 'pick';
+
+// 裁剪比例按原图方向计算，null 为自由裁剪
+const CROP_ASPECTS: [string, number | null][] = [
+  ['自由', null], ['1:1', 1], ['4:3', 4 / 3], ['3:4', 3 / 4], ['16:9', 16 / 9], ['9:16', 9 / 16],
+];
+
+// 文字标签可选的字体；内置点阵字体只包含英文字母、数字和常用符号
+const LABEL_FONTS: [string, string][] = [
+  ['sans-serif', '无衬线'],
+  ['serif', '衬线'],
+  ['monospace', '等宽'],
+  ['"PingFang SC", "Microsoft YaHei", sans-serif', '中文黑体'],
+  ['"Songti SC", SimSun, serif', '中文宋体'],
+  [PIXEL_FONT, '内置点阵（与命令行一致）'],
+];
+
+// 在输入框中按快捷键时保留浏览器自带的文字撤销
+const isTextEntry = (target: EventTarget | null): boolean =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type));
+
 export default function App() {
   const [imageSrc, setImageSrc] = useState<string | null>(null);
+  const [depthSrc, setDepthSrc] = useState<string | null>(null);
   const [processedData, setProcessedData] = useState<ProcessedData | null>(null);
-  const [settings, setSettings] = useState<Settings>({
-    numColors: 4,
-    baseThickness: 0.8,
-    modelWidth: 100,
-    pixelSize: 0.4,
-    dithering: true,
-    edgePreservation: false,
-  });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [layers, setLayers] = useState<Layer[] | null>(null);
   const [userOrderedLayers, setUserOrderedLayers] = useState<Layer[] | null>(null);
   const [geometryData, setGeometryData] = useState<GeometryData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [filaments, setFilaments] = useState<Filament[]>(loadFilamentLibrary);
+  const [simulateTransmission, setSimulateTransmission] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isMeshing, setIsMeshing] = useState(false);
+  const [sessionRestored, setSessionRestored] = useState(false);
+  const [customColor, setCustomColor] = useState('#FFFFFF');
+  const [pinColor, setPinColor] = useState('#000000');
+  const [brushTool, setBrushTool] = useState<BrushTool | null>(null);
+  const [brushLayerId, setBrushLayerId] = useState<number | null>(null);
+  const [brushSize, setBrushSize] = useState(3);
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const [sourceTool, setSourceTool] = useState<SourceTool | null>(null);
+  const [draftCrop, setDraftCrop] = useState<CropRect | null>(null);
+  const [showPreprocessed, setShowPreprocessed] = useState(false);
+  const [history, setHistory] = useState<History<ProjectSnapshot>>(() => createHistory({
+    imageSrc: null, depthSrc: null, settings: DEFAULT_SETTINGS, processedData: null, layers: null, userOrderedLayers: null
+  }));
 
   const originalCanvasRef = useRef<HTMLCanvasElement>(null);
   const processedCanvasRef = useRef<HTMLCanvasElement>(null);
+  const processingWorker = useRef<ReliefWorkerClient | null>(null);
+  const brushStroke = useRef<{ target: HeightMapTarget; last: [number, number]; changed: boolean } | null>(null);
+  const cropStart = useRef<[number, number] | null>(null);
+  const meshWorker = useRef<ReliefWorkerClient | null>(null);
 
   useEffect(() => {
-    if (imageSrc && originalCanvasRef.current) {
-      const canvas = originalCanvasRef.current;
-      const ctx = canvas.getContext('2d');
-      const img = new Image();
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx?.drawImage(img, 0, 0);
+    return () => {
+      processingWorker.current?.dispose();
+      meshWorker.current?.dispose();
+      processingWorker.current = null;
+      meshWorker.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    setSourceImage(null);
+    if (!imageSrc) return;
+    const img = new Image();
+    img.onload = () => setSourceImage(img);
+    img.src = imageSrc;
+  }, [imageSrc]);
+
+  // 原图预览：显示原图和裁剪框，或者显示预处理后的结果（与送去量化的像素一致）
+  useEffect(() => {
+    const canvas = originalCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !sourceImage || !imageSrc) return;
+    if (showPreprocessed) {
+      let cancelled = false;
+      // 拖动滑块时稍等片刻再重新计算
+      const timer = setTimeout(async () => {
+        try {
+          const image = await loadImageData(imageSrc, settings);
+          if (cancelled) return;
+          canvas.width = image.width;
+          canvas.height = image.height;
+          ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+        } catch (error) {
+          console.error("Preprocess preview failed:", error);
+        }
+      }, 200);
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
       };
-      img.src = imageSrc;
     }
-  }, [imageSrc]);
+    const { width, height } = sourceImage;
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(sourceImage, 0, 0);
+    const crop = draftCrop ?? settings.preprocess.crop;
+    if (crop) {
+      const x = crop.x * width;
+      const y = crop.y * height;
+      const w = crop.width * width;
+      const h = crop.height * height;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.fillRect(0, 0, width, y);
+      ctx.fillRect(0, y + h, width, height - y - h);
+      ctx.fillRect(0, y, x, h);
+      ctx.fillRect(x + w, y, width - x - w, h);
+      ctx.strokeStyle = '#818cf8';
+      ctx.lineWidth = Math.max(1, Math.round(Math.max(width, height) / 400));
+      ctx.strokeRect(x, y, w, h);
+    }
+  }, [imageSrc, sourceImage, showPreprocessed, draftCrop, settings]);
 
-  // Render final preview with current layer order
   useEffect(() => {
+    saveFilamentLibrary(filaments);
+  }, [filaments]);
+
+  // 外形只取决于处理结果和外形参数，其他参数变化时不必重新计算
+  const { outline, cornerRadius, modelWidth } = settings;
+  const outlineMask = useMemo(
+    () => processedData ? resolveOutlineMask(processedData, { outline, cornerRadius, modelWidth }) : null,
+    [processedData, outline, cornerRadius, modelWidth]
+  );
+  // 挖去挂孔后的外形和边框像素，网格在 Worker 中按同样的参数重新计算
+  const frameLayout = useMemo(
+    () => processedData ? resolveFrameLayout(outlineMask, processedData.width, processedData.height, { frame: settings.frame, modelWidth }) : null,
+    [processedData, outlineMask, settings.frame, modelWidth]
+  );
+  const labelMasks = useMemo(
+    () => processedData ? resolveLabelMasks(processedData.width, processedData.height, { labels: settings.labels, modelWidth }) : [],
+    [processedData, settings.labels, modelWidth]
+  );
+  // 网格只读取这些参数，随机种子、颜色数、预处理等参数变化时不重新生成网格
+  const { baseThickness, firstLayerHeight, geometryMode, frame, labels } = settings;
+  const meshSettings = useMemo<MeshSettings>(
+    () => ({ modelWidth, baseThickness, firstLayerHeight, geometryMode, frame, labels }),
+    [modelWidth, baseThickness, firstLayerHeight, geometryMode, frame, labels]
+  );
+
+  // Render final preview with current layer order
+  // 画笔拖动过程中直接用编辑中的高度图重绘，松开后才写回状态
+  const drawPreview = useCallback((heightMap: Uint8Array) => {
     if (processedData && layers && processedCanvasRef.current) {
       const canvas = processedCanvasRef.current;
       canvas.width = processedData.width;
@@ -521,30 +446,58 @@ export default function App() {
         idToNewIndex.set(layer.id, newIndex);
       });
 
+      // 开启透光模拟时，每个像素显示其下方所有图层按厚度叠加后的颜色
+      const displayColors = simulateTransmission
+        ? simulateLayerColors(withBaseThickness(layers, settings.baseThickness))
+        : layers.map(l => l.color);
+
       const imageData = ctx.createImageData(processedData.width, processedData.height);
-      const { heightMap } = processedData;
 
+      // 外形以外和挂孔中的像素不会被打印，显示为透明；边框和文字显示所选图层的颜色
+      const mask = frameLayout?.mask;
+      const framePixels = frameLayout?.frame;
+      const frameIndex = frameLayerIndex(layers, settings.frame);
+      const labelIndices = labelMasks.map(({ label }) => labelLayerIndex(layers, label));
       for (let i = 0; i < heightMap.length; i++) {
+        if (mask && !mask[i]) continue;
         const originalLayerId = heightMap[i];
-        const newIndex = idToNewIndex.get(originalLayerId) ?? 0;
-        const layer = layers[newIndex];
+        let newIndex = framePixels?.[i] ? frameIndex : idToNewIndex.get(originalLayerId) ?? 0;
+        labelMasks.forEach(({ label, mask: labelMask }, n) => {
+          if (labelMask[i]) newIndex = labelTopIndex(label, labelIndices[n], newIndex);
+        });
+        const color = displayColors[newIndex];
         
-        imageData.data[i * 4] = layer.color[0];
-        imageData.data[i * 4 + 1] = layer.color[1];
-        imageData.data[i * 4 + 2] = layer.color[2];
+        imageData.data[i * 4] = color[0];
+        imageData.data[i * 4 + 1] = color[1];
+        imageData.data[i * 4 + 2] = color[2];
         imageData.data[i * 4 + 3] = 255;
       }
 
       ctx.putImageData(imageData, 0, 0);
     }
-  }, [processedData, layers]);
+  }, [processedData, layers, simulateTransmission, settings.baseThickness, settings.frame, frameLayout, labelMasks]);
+
+  // 亮度浮雕中像素露出的图层随图层高度变化，需要重新按高度区间划分
+  const layerIds = useMemo(
+    () => processedData && layers ? resolveLayerIds(processedData, layers) : null,
+    [processedData, layers]
+  );
+
+  useEffect(() => {
+    if (layerIds) drawPreview(layerIds);
+  }, [layerIds, drawPreview]);
 
   const handleProcess = useCallback(async () => {
     if (!imageSrc) return;
     setIsLoading(true);
+    setIsProcessing(true);
     setLoadingMessage('正在处理图片，请稍候...');
     try {
-      const data = await processImage(imageSrc, settings);
+      const imageData = await loadImageData(imageSrc, settings);
+      const depthImage = settings.reliefMode === 'luminance' && depthSrc
+        ? await loadDepthImage(depthSrc, settings, imageData)
+        : undefined;
+      const data = await getWorkerClient(processingWorker).process(imageData, settings, filaments, setLoadingMessage, depthImage);
       setProcessedData(data);
       
       // 如果用户已经自定义了顺序，保持该顺序并更新颜色
@@ -563,35 +516,190 @@ export default function App() {
         setUserOrderedLayers(data.layers);
       }
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error("Image processing failed:", error);
       alert("图片处理失败，请检查浏览器控制台。");
     } finally {
+      setIsProcessing(false);
       setIsLoading(false);
     }
-  }, [imageSrc, settings, userOrderedLayers]);
+  }, [imageSrc, depthSrc, settings, userOrderedLayers, filaments]);
+
+  const cancelProcessing = () => {
+    processingWorker.current?.cancel();
+  };
   
   const handleDownload = useCallback(() => {
     if(!geometryData || !processedData) return;
+    const { geometry } = geometryData;
+    const report = validateMesh(geometry.attributes.position.array, geometry.index?.array ?? []);
+    if (!report.isValid) {
+      const issues = describeMeshIssues(report);
+      console.warn("Mesh validation failed:", report);
+      if (!window.confirm(`模型网格检查未通过：\n${issues.join('\n')}\n\n切片软件可能无法正确处理，仍要导出吗？`)) return;
+    }
     setIsLoading(true);
     setLoadingMessage('正在生成模型文件...');
     try {
-      const blob = generateSTL(geometryData, settings);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'hueforge_model.stl';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const buffer = generateSTL(geometry.attributes.position.array, geometry.index?.array ?? []);
+      const blob = new Blob([buffer], { type: 'application/sla' });
+      downloadBlob(blob, 'hueforge_model.stl');
     } catch(error) {
         console.error("Failed to generate STL:", error);
         alert("STL文件生成失败。");
     } finally {
         setIsLoading(false);
     }
-  }, [geometryData, settings, processedData]);
+  }, [geometryData, processedData]);
+
+  const handleDownload3MF = useCallback(async () => {
+    if(!processedData || !layers) return;
+    setIsLoading(true);
+    setLoadingMessage('正在生成多色 3MF 文件...');
+    try {
+      const blob = await getWorkerClient(processingWorker).export3MF(processedData, layers, settings);
+      downloadBlob(blob, 'hueforge_model.3mf');
+    } catch(error) {
+        if (isCancelledError(error)) return;
+        console.error("Failed to generate 3MF:", error);
+        alert("3MF文件生成失败。");
+    } finally {
+        setIsLoading(false);
+    }
+  }, [processedData, layers, settings]);
   
+  const snapshot = useMemo<ProjectSnapshot>(
+    () => ({ imageSrc, depthSrc, settings, processedData, layers, userOrderedLayers }),
+    [imageSrc, depthSrc, settings, processedData, layers, userOrderedLayers]
+  );
+
+  const applySnapshot = (next: ProjectSnapshot) => {
+    setImageSrc(next.imageSrc);
+    setDepthSrc(next.depthSrc);
+    setSettings(next.settings);
+    setProcessedData(next.processedData);
+    setLayers(next.layers);
+    setUserOrderedLayers(next.userOrderedLayers);
+    if (!next.processedData) setGeometryData(null);
+  };
+
+  // 启动时恢复上次自动保存的会话，并以它作为历史记录的起点
+  useEffect(() => {
+    let cancelled = false;
+    loadSession(DEFAULT_SETTINGS)
+      .then(saved => {
+        if (cancelled || !saved) return;
+        applySnapshot(saved);
+        setHistory(createHistory(saved));
+      })
+      .catch(error => console.warn("Failed to restore session:", error))
+      .finally(() => {
+        if (!cancelled) setSessionRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const timer = setTimeout(() => {
+      setHistory(current => isSameSnapshot(currentEntry(current), snapshot) ? current : pushHistory(current, snapshot));
+    }, HISTORY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [snapshot, sessionRestored]);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const timer = setTimeout(() => {
+      saveSession(snapshot).catch(error => console.warn("Failed to autosave session:", error));
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [snapshot, sessionRestored]);
+
+  // 尚未写入历史的修改先记录下来，保证撤销后还能重做回来
+  const withPendingChange = useCallback(
+    () => isSameSnapshot(currentEntry(history), snapshot) ? history : pushHistory(history, snapshot),
+    [history, snapshot]
+  );
+
+  const undo = useCallback(() => {
+    const base = withPendingChange();
+    if (!canUndo(base)) return;
+    const next = undoHistory(base);
+    setHistory(next);
+    applySnapshot(currentEntry(next));
+  }, [withPendingChange]);
+
+  const redo = useCallback(() => {
+    const base = withPendingChange();
+    if (!canRedo(base)) return;
+    const next = redoHistory(base);
+    setHistory(next);
+    applySnapshot(currentEntry(next));
+  }, [withPendingChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextEntry(e.target) || isLoading) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isLoading]);
+
+  const handleDepthFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setDepthSrc(event.target?.result as string);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSaveProject = () => {
+    const json = serializeProject({ imageSrc, depthSrc, settings, processedData, layers, userOrderedLayers });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `hueforge_project${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    processingWorker.current?.cancel();
+    file.text()
+      .then(text => {
+        applySnapshot(parseProject(text, DEFAULT_SETTINGS));
+      })
+      .catch(error => {
+        console.error("Failed to open project:", error);
+        alert(`项目文件打开失败：${error instanceof Error ? error.message : error}`);
+      });
+  };
+
+  const swapPlan = useMemo(() => {
+    if (!layers) return null;
+    return buildSwapPlan(withBaseThickness(layers, settings.baseThickness), settings.firstLayerHeight, settings.layerHeight);
+  }, [layers, settings.baseThickness, settings.firstLayerHeight, settings.layerHeight]);
+
+  const handleDownloadSwapPlan = (format: 'txt' | 'json' | 'gcode') => {
+    if (!swapPlan) return;
+    const content = format === 'json' ? formatSwapPlanJson(swapPlan)
+      : format === 'gcode' ? formatSwapPlanGcode(swapPlan)
+      : formatSwapPlanText(swapPlan);
+    const type = format === 'json' ? 'application/json' : 'text/plain';
+    downloadBlob(new Blob([content], { type }), `hueforge_swaps.${format}`);
+  };
+
   const updateLayerHeight = (id: number, height: number) => {
     setLayers(currentLayers => 
         currentLayers?.map(l => l.id === id ? {...l, height: height} : l) || null
@@ -602,47 +710,103 @@ export default function App() {
   };
 
   const updateLayerColor = (id: number, hexColor: string) => {
-    // 将hex转换为RGB
-    const hex = hexColor.replace('#', '');
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-    const rgb: RGBColor = [r, g, b];
+    const rgb: RGBColor = hexToRgb(hexColor);
+    // 手动改色后不再对应耗材库中的耗材，保留原 TD
+    const recolor = (l: Layer): Layer => l.id === id ? {...l, color: rgb, hex: hexColor.toUpperCase(), filamentName: undefined} : l;
     
-    setLayers(currentLayers => 
-        currentLayers?.map(l => l.id === id ? {...l, color: rgb, hex: hexColor.toUpperCase()} : l) || null
-    );
-    setUserOrderedLayers(currentLayers => 
-        currentLayers?.map(l => l.id === id ? {...l, color: rgb, hex: hexColor.toUpperCase()} : l) || null
-    );
+    setLayers(currentLayers => currentLayers?.map(recolor) || null);
+    setUserOrderedLayers(currentLayers => currentLayers?.map(recolor) || null);
   };
 
-  // 重新计算图层的累积高度（打印顺序从下到上）
-  const recalculateLayerHeights = (layersArray: Layer[]): Layer[] => {
-    const firstLayerThickness = 0.64; // 第一层厚度为0.64mm
-    const normalLayerThickness = 0.16; // 其余层厚度每层增加0.16mm
-    
-    let cumulativeHeight = 0;
-    return layersArray.map((layer, index) => {
-      if (index === 0) {
-        cumulativeHeight = firstLayerThickness;
+  const assignFilament = (id: number, filamentId: string) => {
+    const filament = filaments.find(f => f.id === filamentId);
+    if (!filament) return;
+    const assign = (l: Layer): Layer => l.id === id ? {...l, ...filamentToLayerColor(filament)} : l;
+    setLayers(currentLayers => currentLayers?.map(assign) || null);
+    setUserOrderedLayers(currentLayers => currentLayers?.map(assign) || null);
+  };
+
+  // 输入框失去焦点时，将手动输入的高度吸附到打印层边界
+  const snapLayerHeightInput = (id: number) => {
+    const snap = (l: Layer) => l.id === id ? {...l, height: snapLayerHeight(l.height, settings)} : l;
+    setLayers(currentLayers => currentLayers?.map(snap) || null);
+    setUserOrderedLayers(currentLayers => currentLayers?.map(snap) || null);
+  };
+
+  const applyPrintProfile = () => {
+    if (!layers) return;
+    const recalculated = recalculateLayerHeights(layers, settings);
+    setLayers(recalculated);
+    setUserOrderedLayers(recalculated);
+  };
+
+  // 调色板编辑后按新的图层颜色重新分配所有像素，而不是沿用原来的聚类结果
+  const applyPaletteEdit = async (edit: (imageData: RasterImage, currentLayers: Layer[]) => Layer[] | null) => {
+    if (!imageSrc || !processedData || !layers) return;
+    setIsLoading(true);
+    setIsProcessing(true);
+    setLoadingMessage('正在按新调色板重新分配像素...');
+    try {
+      const imageData = await loadImageData(imageSrc, settings, processedData);
+      const edited = edit(imageData, layers);
+      if (!edited) return;
+      let assignment: PaletteAssignment;
+      if (processedData.depthMap) {
+        // 亮度浮雕的像素按高度区间分配，不需要重新匹配颜色
+        const heightMap = assignHeightBands(processedData.depthMap, edited);
+        assignment = { heightMap, processedImage: renderPaletteImage(heightMap, edited, processedData.width, processedData.height) };
       } else {
-        cumulativeHeight += normalLayerThickness;
+        assignment = await getWorkerClient(processingWorker).remap(imageData, edited, settings, setLoadingMessage);
       }
-      return {
-        ...layer,
-        height: parseFloat(cumulativeHeight.toFixed(2)) // 保留2位小数
-      };
+      setProcessedData({ ...processedData, layers: edited, ...assignment });
+      setLayers(edited);
+      setUserOrderedLayers(edited);
+    } catch (error) {
+      if (isCancelledError(error)) return;
+      console.error("Palette edit failed:", error);
+      alert(`调色板修改失败：${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsProcessing(false);
+      setIsLoading(false);
+    }
+  };
+
+  const togglePin = (hex: string) => {
+    setSettings(current => ({ ...current, pinnedColors: togglePinnedColor(current.pinnedColors, hex) }));
+  };
+
+  const mergeLayerInto = (sourceId: number, targetId: number) => {
+    applyPaletteEdit((_, current) => recalculateLayerHeights(mergeLayers(current, sourceId, targetId), settings));
+  };
+
+  const splitLayerColors = (id: number) => {
+    if (!processedData) return;
+    applyPaletteEdit((imageData, current) => {
+      const split = splitLayer(current, id, collectLayerPixels(imageData, processedData.heightMap, id), settings);
+      if (!split) {
+        alert("该图层的像素颜色完全相同，无法拆分。");
+        return null;
+      }
+      return recalculateLayerHeights(split, settings);
     });
   };
 
+  const addCustomLayer = () => {
+    applyPaletteEdit((_, current) => recalculateLayerHeights(addLayer(current, hexToRgb(customColor)), settings));
+  };
+
+  // 手动改色后像素仍按原颜色归属，需要时可按当前颜色重新分配
+  const reassignPixels = () => {
+    applyPaletteEdit((_, current) => current);
+  };
+
   const moveLayerUp = (index: number) => {
     if (index === 0 || !layers) return;
     setLayers(currentLayers => {
       if (!currentLayers) return null;
       const newLayers = [...currentLayers];
       [newLayers[index - 1], newLayers[index]] = [newLayers[index], newLayers[index - 1]];
-      const recalculated = recalculateLayerHeights(newLayers);
+      const recalculated = recalculateLayerHeights(newLayers, settings);
       setUserOrderedLayers(recalculated);
       return recalculated;
     });
@@ -654,7 +818,7 @@ export default function App() {
       if (!currentLayers) return null;
       const newLayers = [...currentLayers];
       [newLayers[index], newLayers[index + 1]] = [newLayers[index + 1], newLayers[index]];
-      const recalculated = recalculateLayerHeights(newLayers);
+      const recalculated = recalculateLayerHeights(newLayers, settings);
       setUserOrderedLayers(recalculated);
       return recalculated;
     });
@@ -676,7 +840,7 @@ export default function App() {
     const [draggedItem] = newLayers.splice(draggedIndex, 1);
     newLayers.splice(dropIndex, 0, draggedItem);
     
-    const recalculated = recalculateLayerHeights(newLayers);
+    const recalculated = recalculateLayerHeights(newLayers, settings);
     setLayers(recalculated);
     setUserOrderedLayers(recalculated);
     setDraggedIndex(null);
@@ -686,143 +850,148 @@ export default function App() {
     setDraggedIndex(null);
   };
 
-  useEffect(() => {
-    if (processedData && layers) {
-      const { heightMap, width, height } = processedData;
-      const { modelWidth } = settings;
-      
-      const modelHeight = (modelWidth / width) * height;
-      const finalPixelSize = modelWidth / width;
-      
-      const indices: number[] = [];
-      const positions: number[] = [];
-      const vertexMap = new Map<string, number>();
-      
-      // Create mapping from original layer ID to current position in layers array
-      const idToCurrentIndex = new Map<number, number>();
-      layers.forEach((layer, index) => {
-        idToCurrentIndex.set(layer.id, index);
-      });
-      
-      const getHeight = (x: number, y: number): number => {
-          if (x < 0 || x >= width || y < 0 || y >= height) return 0;
-          const originalLayerId = heightMap[y * width + x];
-          const currentIndex = idToCurrentIndex.get(originalLayerId) ?? 0;
-          const layer = layers[currentIndex];
-          return layer?.height || 0;
-      }
+  // 未选择或所选图层已被删除时，画笔默认使用最上层的颜色
+  const brushLayer = layers ? layers.find(l => l.id === brushLayerId) ?? layers[layers.length - 1] : null;
+  const brushValue = brushTool === 'erase' ? layers?.[0]?.id : brushLayer?.id;
+
+  // 预览画布经 CSS 缩放显示，按显示尺寸换算回画布坐标（裁剪框使用不取整的坐标，可以贴齐右下边缘）
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+    return [Math.min(canvas.width, Math.max(0, x)), Math.min(canvas.height, Math.max(0, y))];
+  };
 
-      // Helper to add or get vertex index
-      const addVertex = (x: number, y: number, z: number): number => {
-        const key = `${x.toFixed(6)},${y.toFixed(6)},${z.toFixed(6)}`;
-        if (vertexMap.has(key)) {
-          return vertexMap.get(key)!;
-        }
-        const index = positions.length / 3;
-        positions.push(x, y, z);
-        vertexMap.set(key, index);
-        return index;
-      };
+  const canvasPixel = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const [x, y] = canvasPoint(e);
+    const canvas = e.currentTarget;
+    return [Math.min(canvas.width - 1, Math.floor(x)), Math.min(canvas.height - 1, Math.floor(y))];
+  };
 
-      // Helper to add a triangle
-      const addTriangle = (i0: number, i1: number, i2: number) => {
-        indices.push(i0, i1, i2);
-      };
+  // 每次笔画或填充结束后写回一次处理结果，三维模型随之更新，撤销也以此为单位
+  const commitHeightMap = (heightMap: Uint8Array) => {
+    if (!processedData) return;
+    const { width, height } = processedData;
+    setProcessedData({
+      ...processedData,
+      heightMap,
+      processedImage: renderPaletteImage(heightMap, processedData.layers, width, height),
+    });
+  };
 
-      // Create vertex indices grid for top and bottom surfaces
-      const topIndices: number[][] = Array.from({ length: height }, () => new Array(width));
-      const bottomIndices: number[][] = Array.from({ length: height }, () => new Array(width));
-      
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const px = (x - width / 2) * finalPixelSize;
-          const py = -(y - height / 2) * finalPixelSize;
-          topIndices[y][x] = addVertex(px, py, getHeight(x, y));
-          bottomIndices[y][x] = addVertex(px, py, 0);
-        }
-      }
+  const handleBrushDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!brushTool || !processedData || processedData.depthMap || brushValue === undefined || isLoading) return;
+    const [x, y] = canvasPixel(e);
+    const { width, height } = processedData;
+    const target: HeightMapTarget = { heightMap: processedData.heightMap.slice(), width, height };
+    if (brushTool === 'fill') {
+      if (floodFill(target, x, y, brushValue) > 0) commitHeightMap(target.heightMap);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const changed = stampBrush(target, x, y, brushSize, brushValue);
+    brushStroke.current = { target, last: [x, y], changed };
+    if (changed) drawPreview(target.heightMap);
+  };
 
-      // Top surface triangles
-      for (let y = 0; y < height - 1; y++) {
-        for (let x = 0; x < width - 1; x++) {
-          const i0 = topIndices[y][x];
-          const i1 = topIndices[y][x+1];
-          const i2 = topIndices[y+1][x];
-          const i3 = topIndices[y+1][x+1];
-          // CCW winding for upward normal
-          addTriangle(i0, i1, i2);
-          addTriangle(i2, i1, i3);
-        }
-      }
+  const handleBrushMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = brushStroke.current;
+    if (!stroke || brushValue === undefined) return;
+    const point = canvasPixel(e);
+    if (strokeBrush(stroke.target, stroke.last, point, brushSize, brushValue)) {
+      stroke.changed = true;
+      drawPreview(stroke.target.heightMap);
+    }
+    stroke.last = point;
+  };
 
-      // Bottom surface triangles
-      for (let y = 0; y < height - 1; y++) {
-        for (let x = 0; x < width - 1; x++) {
-          const i0 = bottomIndices[y][x];
-          const i1 = bottomIndices[y][x+1];
-          const i2 = bottomIndices[y+1][x];
-          const i3 = bottomIndices[y+1][x+1];
-          // CW winding for downward normal
-          addTriangle(i0, i2, i1);
-          addTriangle(i1, i2, i3);
-        }
-      }
+  const handleBrushUp = () => {
+    const stroke = brushStroke.current;
+    brushStroke.current = null;
+    if (stroke?.changed) commitHeightMap(stroke.target.heightMap);
+  };
 
-      // Side walls - Top edge (y=0)
-      for (let x = 0; x < width - 1; x++) {
-        const t0 = topIndices[0][x];
-        const t1 = topIndices[0][x+1];
-        const b0 = bottomIndices[0][x];
-        const b1 = bottomIndices[0][x+1];
-        addTriangle(t0, t1, b0);
-        addTriangle(b0, t1, b1);
-      }
-      
-      // Side walls - Bottom edge (y=height-1)
-      for (let x = 0; x < width - 1; x++) {
-        const t0 = topIndices[height-1][x];
-        const t1 = topIndices[height-1][x+1];
-        const b0 = bottomIndices[height-1][x];
-        const b1 = bottomIndices[height-1][x+1];
-        addTriangle(t1, t0, b1);
-        addTriangle(b1, t0, b0);
-      }
-      
-      // Side walls - Left edge (x=0)
-      for (let y = 0; y < height - 1; y++) {
-        const t0 = topIndices[y][0];
-        const t1 = topIndices[y+1][0];
-        const b0 = bottomIndices[y][0];
-        const b1 = bottomIndices[y+1][0];
-        addTriangle(t1, t0, b1);
-        addTriangle(b1, t0, b0);
-      }
+  const updatePreprocess = (patch: Partial<PreprocessSettings>) => {
+    setSettings(current => ({ ...current, preprocess: { ...current.preprocess, ...patch } }));
+  };
 
-      // Side walls - Right edge (x=width-1)
-      for (let y = 0; y < height - 1; y++) {
-        const t0 = topIndices[y][width-1];
-        const t1 = topIndices[y+1][width-1];
-        const b0 = bottomIndices[y][width-1];
-        const b1 = bottomIndices[y+1][width-1];
-        addTriangle(t0, t1, b0);
-        addTriangle(b0, t1, b1);
-      }
+  const updateFrame = (patch: Partial<FrameSettings>) => {
+    setSettings(current => ({ ...current, frame: { ...current.frame, ...patch } }));
+  };
 
-      const geometry = new THREE.BufferGeometry();
-      geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-      geometry.setIndex(indices);
-      geometry.computeVertexNormals(); 
+  const updateLabel = (index: number, patch: Partial<TextLabel>) => {
+    setSettings(current => ({ ...current, labels: current.labels.map((label, i) => i === index ? { ...label, ...patch } : label) }));
+  };
 
-      const maxLayerHeight = Math.max(...layers.map(l => l.height), 0);
+  // 在原图上拖出裁剪框，或点击吸取背景颜色；预处理结果视图中不响应
+  const handleSourceDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!sourceTool || !sourceImage || showPreprocessed || isLoading) return;
+    const [x, y] = canvasPixel(e);
+    if (sourceTool === 'pick') {
+      const probe = document.createElement('canvas').getContext('2d');
+      if (!probe) return;
+      probe.drawImage(sourceImage, x, y, 1, 1, 0, 0, 1, 1);
+      const [r, g, b] = probe.getImageData(0, 0, 1, 1).data;
+      const { background } = settings.preprocess;
+      updatePreprocess({ backgroundColor: rgbToHex(r, g, b), background: background === 'none' ? 'flood-fill' : background });
+      setSourceTool(null);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    cropStart.current = canvasPoint(e);
+    setDraftCrop(null);
+  };
+
+  const handleSourceMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!cropStart.current || !sourceImage) return;
+    setDraftCrop(cropFromDrag(cropStart.current, canvasPoint(e), sourceImage.width, sourceImage.height, settings.preprocess.cropAspect));
+  };
+
+  const handleSourceUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = cropStart.current;
+    cropStart.current = null;
+    setDraftCrop(null);
+    if (!start || !sourceImage || e.type === 'pointercancel') return;
+    const crop = cropFromDrag(start, canvasPoint(e), sourceImage.width, sourceImage.height, settings.preprocess.cropAspect);
+    if (crop) updatePreprocess({ crop });
+  };
 
-      setGeometryData({
-        geometry,
-        width: modelWidth,
-        height: modelHeight,
-        depth: maxLayerHeight
+  // 网格在 Worker 中生成；连续修改图层时，新任务会取消尚未完成的旧任务
+  useEffect(() => {
+    if (!processedData || !layers) return;
+    let stale = false;
+    const { heightMap, width, height } = processedData;
+    setIsMeshing(true);
+    getWorkerClient(meshWorker).buildMesh(heightMap, width, height, layers, meshSettings, processedData.depthMap, outlineMask)
+      .then(buffers => {
+        if (stale) return;
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3));
+        geometry.setAttribute('uv', new THREE.BufferAttribute(buffers.uvs, 2));
+        geometry.setIndex(new THREE.BufferAttribute(buffers.indices, 1));
+        geometry.computeVertexNormals();
+
+        setGeometryData({
+          geometry,
+          colorMap: createLayerColorMap(withBaseThickness(layers, meshSettings.baseThickness), buffers.depth),
+          width: buffers.width,
+          height: buffers.height,
+          depth: buffers.depth
+        });
+        setIsMeshing(false);
+      })
+      .catch(error => {
+        if (isCancelledError(error)) return;
+        console.error("Mesh generation failed:", error);
+        setIsMeshing(false);
       });
-    }
-  }, [processedData, layers, settings]);
+    // 结果被丢弃时也要清除状态，否则处理结果被清空后会一直显示正在更新模型
+    return () => {
+      stale = true;
+      setIsMeshing(false);
+    };
+  }, [processedData, layers, meshSettings, outlineMask]);
 
   const maxModelDim = useMemo(() => {
       if(!geometryData) return 100;
@@ -851,6 +1020,11 @@ export default function App() {
             <div className="fixed inset-0 bg-black/70 flex flex-col items-center justify-center z-50">
                 <Loader className="w-16 h-16 animate-spin text-indigo-500" />
                 <p className="mt-4 text-xl">{loadingMessage}</p>
+                {isProcessing && (
+                    <button onClick={cancelProcessing} className="mt-4 bg-gray-700 hover:bg-gray-600 text-white py-2 px-6 rounded-md transition-colors">
+                        取消
+                    </button>
+                )}
             </div>
         )}
 
@@ -858,14 +1032,141 @@ export default function App() {
             <div className="lg:col-span-1 space-y-6">
                 <Panel title="上传图片" icon={<Upload size={20}/>} step="步骤一">
                     <FileUploader onImageUpload={setImageSrc} disabled={isLoading}/>
+                    <div className="grid grid-cols-2 gap-2 mt-3">
+                        <button onClick={handleSaveProject} disabled={!imageSrc || isLoading} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors" title="保存原图、参数、处理结果和图层表">
+                            <Save size={16} className="mr-1"/> 保存项目
+                        </button>
+                        <label className={`bg-gray-600 rounded-md py-1 px-2 text-sm flex items-center justify-center transition-colors ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-500 cursor-pointer'}`}>
+                            <FolderOpen size={16} className="mr-1"/> 打开项目
+                            <input type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} className="hidden" onChange={handleOpenProject} disabled={isLoading}/>
+                        </label>
+                        <button onClick={undo} disabled={isLoading || (!canUndo(history) && isSameSnapshot(currentEntry(history), snapshot))} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors" title="撤销 (Ctrl+Z)">
+                            <Undo2 size={16} className="mr-1"/> 撤销
+                        </button>
+                        <button onClick={redo} disabled={isLoading || !canRedo(history) || !isSameSnapshot(currentEntry(history), snapshot)} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors" title="重做 (Ctrl+Shift+Z / Ctrl+Y)">
+                            <Redo2 size={16} className="mr-1"/> 重做
+                        </button>
+                    </div>
                 </Panel>
                 
+                <Panel title="图片预处理" icon={<SlidersHorizontal size={20}/>} step="可选">
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">裁剪</label>
+                            <div className="flex gap-2">
+                                <button onClick={() => setSourceTool(sourceTool === 'crop' ? null : 'crop')} disabled={!imageSrc || isLoading} className={`flex-1 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors ${sourceTool === 'crop' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`} title="在原始图片上拖动，框选要保留的区域">
+                                    <Crop size={16} className="mr-1"/> {sourceTool === 'crop' ? '完成框选' : '框选裁剪'}
+                                </button>
+                                <select value={CROP_ASPECTS.findIndex(([, aspect]) => aspect === settings.preprocess.cropAspect)} onChange={e => updatePreprocess({cropAspect: CROP_ASPECTS[parseInt(e.target.value)][1]})} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" title="锁定裁剪框的宽高比" disabled={!imageSrc || isLoading}>
+                                    {CROP_ASPECTS.map(([label], index) => <option key={label} value={index}>{label}</option>)}
+                                </select>
+                                <button onClick={() => updatePreprocess({crop: null})} disabled={!settings.preprocess.crop || isLoading} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm disabled:cursor-not-allowed disabled:opacity-50 transition-colors">
+                                    清除
+                                </button>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">旋转与翻转</label>
+                            <div className="grid grid-cols-3 gap-2">
+                                <button onClick={() => updatePreprocess({rotation: ((settings.preprocess.rotation + 90) % 360) as PreprocessSettings['rotation']})} disabled={!imageSrc || isLoading} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors" title="顺时针旋转 90°">
+                                    <RotateCw size={16} className="mr-1"/> {settings.preprocess.rotation}°
+                                </button>
+                                <button onClick={() => updatePreprocess({flipHorizontal: !settings.preprocess.flipHorizontal})} disabled={!imageSrc || isLoading} className={`rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors ${settings.preprocess.flipHorizontal ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`} title="水平翻转">
+                                    <FlipHorizontal2 size={16} className="mr-1"/> 水平
+                                </button>
+                                <button onClick={() => updatePreprocess({flipVertical: !settings.preprocess.flipVertical})} disabled={!imageSrc || isLoading} className={`rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors ${settings.preprocess.flipVertical ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`} title="垂直翻转">
+                                    <FlipVertical2 size={16} className="mr-1"/> 垂直
+                                </button>
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="brightness" className="block text-sm font-medium mb-1">亮度: {settings.preprocess.brightness}</label>
+                            <input id="brightness" type="range" min="-100" max="100" value={settings.preprocess.brightness} onChange={e => updatePreprocess({brightness: parseInt(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                        </div>
+                        <div>
+                            <label htmlFor="contrast" className="block text-sm font-medium mb-1">对比度: {settings.preprocess.contrast}</label>
+                            <input id="contrast" type="range" min="-100" max="100" value={settings.preprocess.contrast} onChange={e => updatePreprocess({contrast: parseInt(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                        </div>
+                        <div>
+                            <label htmlFor="gamma" className="block text-sm font-medium mb-1">Gamma: {settings.preprocess.gamma.toFixed(2)}</label>
+                            <input id="gamma" type="range" min="0.2" max="3" step="0.05" value={settings.preprocess.gamma} onChange={e => updatePreprocess({gamma: parseFloat(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                        </div>
+                        <div>
+                            <label htmlFor="blurRadius" className="block text-sm font-medium mb-1">模糊半径: {settings.preprocess.blurRadius} 像素</label>
+                            <input id="blurRadius" type="range" min="0" max="5" value={settings.preprocess.blurRadius} onChange={e => updatePreprocess({blurRadius: parseInt(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                            <label className="flex items-center gap-2 mt-2 text-sm">
+                                <input type="checkbox" checked={settings.preprocess.denoise} onChange={e => updatePreprocess({denoise: e.target.checked})} className="accent-indigo-500" disabled={!imageSrc || isLoading}/>
+                                降噪（中值滤波，去除噪点和 JPEG 杂色）
+                            </label>
+                        </div>
+                        <div>
+                            <label htmlFor="background" className="block text-sm font-medium mb-1">去除背景</label>
+                            <select id="background" value={settings.preprocess.background} onChange={e => updatePreprocess({background: e.target.value as BackgroundRemoval})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="none">不去除</option>
+                                <option value="flood-fill">从边缘填充（只去除与边缘相连的背景）</option>
+                                <option value="color-key">按颜色（去除所有相近颜色）</option>
+                            </select>
+                            {settings.preprocess.background !== 'none' && (
+                                <div className="space-y-2 mt-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span>背景色</span>
+                                        <input type="color" value={settings.preprocess.backgroundColor} onChange={e => updatePreprocess({backgroundColor: e.target.value.toUpperCase()})} className="w-6 h-6 bg-transparent cursor-pointer" disabled={isLoading}/>
+                                        <button onClick={() => setSourceTool(sourceTool === 'pick' ? null : 'pick')} disabled={!imageSrc || isLoading} className={`p-1 rounded disabled:cursor-not-allowed disabled:opacity-50 transition-colors ${sourceTool === 'pick' ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`} title="在原始图片上点击吸取背景色">
+                                            <Pipette size={14}/>
+                                        </button>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="backgroundTolerance" className="block mb-1">容差: {settings.preprocess.backgroundTolerance}</label>
+                                        <input id="backgroundTolerance" type="range" min="0" max="100" value={settings.preprocess.backgroundTolerance} onChange={e => updatePreprocess({backgroundTolerance: parseInt(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                    <p className="text-xs text-gray-400">去除的背景归入最底层（第一个打印的颜色）</p>
+                                </div>
+                            )}
+                        </div>
+                        <button onClick={() => { setSourceTool(null); setSettings(current => ({...current, preprocess: DEFAULT_PREPROCESS})); }} disabled={!imageSrc || isLoading || settings.preprocess === DEFAULT_PREPROCESS} className="w-full bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm disabled:cursor-not-allowed disabled:opacity-50 transition-colors">
+                            恢复默认
+                        </button>
+                    </div>
+                </Panel>
+
                 <Panel title="参数设置" icon={<Cog size={20}/>} step="步骤二">
                     <div className="space-y-4">
                         <div>
                             <label htmlFor="numColors" className="block text-sm font-medium mb-1">颜色数量: {settings.numColors}</label>
                             <input id="numColors" type="range" min="2" max="16" value={settings.numColors} onChange={e => setSettings({...settings, numColors: parseInt(e.target.value)})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
                         </div>
+                        <div>
+                            <p className="block text-sm font-medium mb-1">固定颜色</p>
+                            <div className="flex flex-wrap items-center gap-1">
+                                {settings.pinnedColors.map(hex => (
+                                    <button key={hex} onClick={() => togglePin(hex)} disabled={isLoading} className="w-6 h-6 rounded border-2 border-gray-500 hover:border-red-400 disabled:cursor-not-allowed transition-colors" style={{backgroundColor: hex}} title={`${hex}：点击取消固定`}></button>
+                                ))}
+                                <input type="color" value={pinColor} onChange={e => setPinColor(e.target.value)} className="w-6 h-6 bg-transparent cursor-pointer" title="选择要固定的颜色" disabled={isLoading}/>
+                                <button onClick={() => togglePin(pinColor)} disabled={isLoading || settings.pinnedColors.some(c => c === pinColor.toUpperCase())} className="p-1 bg-gray-600 hover:bg-gray-500 rounded disabled:cursor-not-allowed disabled:opacity-50 transition-colors" title="固定该颜色">
+                                    <Pin size={14} />
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">固定的颜色在聚类时保持不变，计入颜色数量{settings.pinnedColors.length > settings.numColors ? `（超出的 ${settings.pinnedColors.length - settings.numColors} 个不会使用）` : ''}</p>
+                        </div>
+                        <div>
+                            <label htmlFor="colorSpace" className="block text-sm font-medium mb-1">颜色空间</label>
+                            <select id="colorSpace" value={settings.colorSpace} onChange={e => setSettings({...settings, colorSpace: e.target.value as ColorSpace})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="rgb">RGB（最快）</option>
+                                <option value="lab">CIELAB ΔE2000（推荐人像）</option>
+                                <option value="oklab">OKLab</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="paletteSource" className="block text-sm font-medium mb-1">调色板来源</label>
+                            <select id="paletteSource" value={settings.paletteSource} onChange={e => setSettings({...settings, paletteSource: e.target.value as PaletteSource})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="auto">自动聚类</option>
+                                <option value="snap" disabled={filaments.length === 0}>聚类后吸附到耗材库</option>
+                                <option value="pick" disabled={filaments.length === 0}>从耗材库中挑选</option>
+                            </select>
+                            {settings.paletteSource !== 'auto' && (
+                                <p className="text-xs text-gray-400 mt-1">只使用耗材库中的耗材（按色差匹配），图层颜色即为可直接装载的耗材</p>
+                            )}
+                        </div>
                         <div className="flex items-center justify-between py-1">
                             <div>
                                 <label htmlFor="edgePreservation" className="text-sm font-medium">边缘保护 ⭐</label>
@@ -897,37 +1198,367 @@ export default function App() {
                                 <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
                             </label>
                         </div>
+                        {settings.dithering && (
+                            <div className="space-y-2 pl-3 border-l-2 border-gray-700">
+                                <div>
+                                    <label htmlFor="ditherMethod" className="block text-sm font-medium mb-1">抖动算法</label>
+                                    <select id="ditherMethod" value={settings.ditherMethod} onChange={e => setSettings({...settings, ditherMethod: e.target.value as DitherMethod})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                        <optgroup label="误差扩散">
+                                            <option value="floyd-steinberg">Floyd–Steinberg</option>
+                                            <option value="atkinson">Atkinson（色块干净，适合粗线宽）</option>
+                                            <option value="jarvis-judice-ninke">Jarvis–Judice–Ninke</option>
+                                            <option value="stucki">Stucki</option>
+                                            <option value="sierra">Sierra</option>
+                                        </optgroup>
+                                        <optgroup label="有序抖动">
+                                            <option value="bayer">Bayer 8×8</option>
+                                            <option value="blue-noise">蓝噪声</option>
+                                        </optgroup>
+                                    </select>
+                                </div>
+                                {isErrorDiffusion(settings.ditherMethod) && (
+                                    <label className="flex items-center gap-2 text-sm">
+                                        <input type="checkbox" checked={settings.serpentine} onChange={e => setSettings({...settings, serpentine: e.target.checked})} className="accent-indigo-500" disabled={!imageSrc || isLoading}/>
+                                        蛇形扫描（减少同向拖尾纹理）
+                                    </label>
+                                )}
+                                <div>
+                                    <label htmlFor="ditherStrength" className="block text-sm font-medium mb-1">抖动强度: {Math.round(settings.ditherStrength * 100)}%</label>
+                                    <input id="ditherStrength" type="range" min="0" max="100" step="5" value={Math.round(settings.ditherStrength * 100)} onChange={e => setSettings({...settings, ditherStrength: parseInt(e.target.value) / 100})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                </div>
+                            </div>
+                        )}
                         <div>
                             <label htmlFor="modelWidth" className="block text-sm font-medium mb-1">模型宽度 (mm)</label>
                             <input id="modelWidth" type="number" value={settings.modelWidth} onChange={e => setSettings({...settings, modelWidth: parseFloat(e.target.value)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
                         </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label htmlFor="baseThickness" className="block text-sm font-medium mb-1">底板厚度 (mm)</label>
+                                <input id="baseThickness" type="number" step="0.1" min="0" value={settings.baseThickness} onChange={e => setSettings({...settings, baseThickness: parseFloat(e.target.value) || 0})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                            </div>
+                            <div>
+                                <label htmlFor="pixelSize" className="block text-sm font-medium mb-1">线宽 (mm)</label>
+                                <input id="pixelSize" type="number" step="0.05" min="0.1" value={settings.pixelSize} onChange={e => setSettings({...settings, pixelSize: parseFloat(e.target.value) || 0.4})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-400">底板使用第一个图层的颜色；线宽一般等于喷嘴直径，决定处理分辨率（当前宽 {Math.min(MAX_WORKING_DIM, Math.round(settings.modelWidth / settings.pixelSize)) || 0} 像素）</p>
+                        <div>
+                            <label htmlFor="geometryMode" className="block text-sm font-medium mb-1">几何模式</label>
+                            <select id="geometryMode" value={settings.geometryMode} onChange={e => setSettings({...settings, geometryMode: e.target.value as GeometryMode})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="smooth">平滑斜面</option>
+                                <option value="terraced">阶梯（竖直侧壁，换色边界整齐）</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="outline" className="block text-sm font-medium mb-1">模型外形</label>
+                            <select id="outline" value={settings.outline} onChange={e => setSettings({...settings, outline: e.target.value as OutlineShape})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="rectangle">矩形（整张图片）</option>
+                                <option value="alpha">跟随透明区域</option>
+                                <option value="circle">圆形</option>
+                                <option value="oval">椭圆</option>
+                                <option value="rounded">圆角矩形</option>
+                                <option value="hexagon">六边形</option>
+                            </select>
+                            {settings.outline === 'rounded' && (
+                                <div className="mt-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <label htmlFor="cornerRadius" className="block mb-1">圆角半径 (mm)</label>
+                                    <input id="cornerRadius" type="number" step="0.5" min="0" value={settings.cornerRadius} onChange={e => setSettings({...settings, cornerRadius: Math.max(0, parseFloat(e.target.value) || 0)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                </div>
+                            )}
+                            {settings.outline === 'alpha' && processedData && !processedData.alphaMask && (
+                                <p className="text-xs text-yellow-300 mt-1">图片没有透明区域，模型仍为矩形；可以使用带透明背景的 PNG，或在图片预处理中去除背景</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">边框与挂孔</p>
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                                <div>
+                                    <label htmlFor="frameWidth" className="block mb-1">边框宽度 (mm)</label>
+                                    <input id="frameWidth" type="number" step="0.5" min="0" value={settings.frame.width} onChange={e => updateFrame({width: Math.max(0, parseFloat(e.target.value) || 0)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                </div>
+                                <div>
+                                    <label htmlFor="chamfer" className="block mb-1">外缘倒角 (mm)</label>
+                                    <input id="chamfer" type="number" step="0.2" min="0" value={settings.frame.chamfer} onChange={e => updateFrame({chamfer: Math.max(0, parseFloat(e.target.value) || 0)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                </div>
+                            </div>
+                            {(settings.frame.width > 0 || settings.frame.hanger === 'keychain') && (
+                                <div className="grid grid-cols-2 gap-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <div>
+                                        <label htmlFor="frameLayer" className="block mb-1">边框颜色</label>
+                                        <select id="frameLayer" value={layers ? frameLayerIndex(layers, settings.frame) : settings.frame.layer} onChange={e => updateFrame({layer: parseInt(e.target.value)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!layers || isLoading}>
+                                            {(layers ?? []).map((layer, index) => (
+                                                <option key={layer.id} value={index}>图层 {index + 1} {layer.filamentName ?? layer.hex}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="frameHeight" className="block mb-1">高出图层 (mm)</label>
+                                        <input id="frameHeight" type="number" step="0.2" min="0" value={settings.frame.height} onChange={e => updateFrame({height: Math.max(0, parseFloat(e.target.value) || 0)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                    {layers && settings.frame.height > 0 && frameLayerIndex(layers, settings.frame) < layers.length - 1 && (
+                                        <p className="col-span-2 text-xs text-gray-400">按换色计划单喷头打印时，边框高出该图层的部分会打印成上面图层的颜色；3MF 中为单独的同色部件</p>
+                                    )}
+                                </div>
+                            )}
+                            <div>
+                                <label htmlFor="hanger" className="block text-sm mb-1">挂孔</label>
+                                <select id="hanger" value={settings.frame.hanger} onChange={e => updateFrame({hanger: e.target.value as HangerType})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                    <option value="none">无</option>
+                                    <option value="keyhole">葫芦形挂墙孔</option>
+                                    <option value="keychain">钥匙扣孔（带加强环）</option>
+                                </select>
+                            </div>
+                            {settings.frame.hanger !== 'none' && (
+                                <div className="space-y-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <div>
+                                        <label htmlFor="hangerDiameter" className="block mb-1">孔径 (mm)</label>
+                                        <input id="hangerDiameter" type="number" step="0.5" min="1" value={settings.frame.hangerDiameter} onChange={e => updateFrame({hangerDiameter: Math.max(1, parseFloat(e.target.value) || 1)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="hangerX" className="block mb-1">水平位置: {Math.round(settings.frame.hangerX * 100)}%</label>
+                                        <input id="hangerX" type="range" min="0" max="100" value={Math.round(settings.frame.hangerX * 100)} onChange={e => updateFrame({hangerX: parseInt(e.target.value) / 100})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                    <div>
+                                        <label htmlFor="hangerY" className="block mb-1">垂直位置: {Math.round(settings.frame.hangerY * 100)}%</label>
+                                        <input id="hangerY" type="range" min="0" max="100" value={Math.round(settings.frame.hangerY * 100)} onChange={e => updateFrame({hangerY: parseInt(e.target.value) / 100})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">文字</p>
+                            {settings.labels.map((label, index) => (
+                                <div key={index} className="space-y-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <textarea value={label.text} onChange={e => updateLabel(index, {text: e.target.value})} rows={1} placeholder="名字、日期或说明文字" className="flex-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 resize-y" disabled={!imageSrc || isLoading}/>
+                                        <button onClick={() => setSettings({...settings, labels: settings.labels.filter((_, i) => i !== index)})} disabled={isLoading} className="p-1 bg-gray-600 hover:bg-red-600 rounded transition-colors" title="删除文字">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <select value={label.font} onChange={e => updateLabel(index, {font: e.target.value})} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1" title="字体" disabled={!imageSrc || isLoading}>
+                                            {LABEL_FONTS.map(([font, name]) => <option key={font} value={font}>{name}</option>)}
+                                        </select>
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={label.bold} onChange={e => updateLabel(index, {bold: e.target.checked})} className="accent-indigo-500" disabled={!imageSrc || isLoading || label.font === PIXEL_FONT}/>
+                                            粗体
+                                        </label>
+                                        <select value={label.mode} onChange={e => updateLabel(index, {mode: e.target.value as TextMode})} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1" title="凸起或刻入" disabled={!imageSrc || isLoading}>
+                                            <option value="raised">凸起</option>
+                                            <option value="engraved">刻字</option>
+                                        </select>
+                                        <select value={layers ? labelLayerIndex(layers, label) : label.layer} onChange={e => updateLabel(index, {layer: parseInt(e.target.value)})} className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1" title={label.mode === 'raised' ? '文字颜色所在的图层' : '刻字底面露出的图层'} disabled={!layers || isLoading}>
+                                            {(layers ?? []).map((layer, layerIndex) => (
+                                                <option key={layer.id} value={layerIndex}>图层 {layerIndex + 1} {layer.filamentName ?? layer.hex}</option>
+                                            ))}
+                                        </select>
+                                        <div>
+                                            <label className="block mb-1">字高 (mm)</label>
+                                            <input type="number" step="0.5" min="1" value={label.size} onChange={e => updateLabel(index, {size: Math.max(1, parseFloat(e.target.value) || 1)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                        </div>
+                                        {label.mode === 'raised' && (
+                                            <div>
+                                                <label className="block mb-1">高出图层 (mm)</label>
+                                                <input type="number" step="0.2" min="0" value={label.depth} onChange={e => updateLabel(index, {depth: Math.max(0, parseFloat(e.target.value) || 0)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <label className="block mb-1">水平位置: {Math.round(label.x * 100)}%</label>
+                                        <input type="range" min="0" max="100" value={Math.round(label.x * 100)} onChange={e => updateLabel(index, {x: parseInt(e.target.value) / 100})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                    <div>
+                                        <label className="block mb-1">垂直位置: {Math.round(label.y * 100)}%</label>
+                                        <input type="range" min="0" max="100" value={Math.round(label.y * 100)} onChange={e => updateLabel(index, {y: parseInt(e.target.value) / 100})} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer" disabled={!imageSrc || isLoading}/>
+                                    </div>
+                                </div>
+                            ))}
+                            <button onClick={() => setSettings({...settings, labels: [...settings.labels, { ...DEFAULT_LABEL, layer: layers ? layers.length - 1 : 0 }]})} disabled={!imageSrc || isLoading} className="w-full bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed disabled:opacity-50 transition-colors">
+                                <Plus size={14} className="mr-1"/> 添加文字
+                            </button>
+                        </div>
+                        <div>
+                            <label htmlFor="reliefMode" className="block text-sm font-medium mb-1">浮雕模式</label>
+                            <select id="reliefMode" value={settings.reliefMode} onChange={e => setSettings({...settings, reliefMode: e.target.value as ReliefMode})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm" disabled={!imageSrc || isLoading}>
+                                <option value="color">按颜色分层</option>
+                                <option value="luminance">按亮度连续起伏（HueForge / 透光灯片）</option>
+                            </select>
+                            {settings.reliefMode === 'luminance' && (
+                                <div className="space-y-2 mt-2 pl-3 border-l-2 border-gray-700 text-sm">
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={settings.invertDepth} onChange={e => setSettings({...settings, invertDepth: e.target.checked})} className="accent-indigo-500" disabled={!imageSrc || isLoading}/>
+                                        反转（越暗越厚，适合单色透光灯片）
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                        <label className="flex-1 bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-xs text-center cursor-pointer transition-colors">
+                                            {depthSrc ? '更换深度图' : '使用深度图（可选）'}
+                                            <input type="file" accept="image/*" className="hidden" onChange={handleDepthFile} disabled={isLoading}/>
+                                        </label>
+                                        {depthSrc && (
+                                            <button onClick={() => setDepthSrc(null)} disabled={isLoading} className="p-1 bg-gray-600 hover:bg-gray-500 rounded disabled:cursor-not-allowed transition-colors" title="改回使用原图亮度">
+                                                <Trash2 size={14} />
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-gray-400">{depthSrc ? '高度取自深度图的亮度' : '高度取自原图亮度'}，颜色按图层高度区间分配，调整图层高度即可改变色带位置</p>
+                                </div>
+                            )}
+                        </div>
+                        <div className="pt-2 border-t border-gray-700">
+                            <p className="text-sm font-medium mb-2">打印配置</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label htmlFor="firstLayerHeight" className="block text-xs text-gray-400 mb-1">首层层高 (mm)</label>
+                                    <input id="firstLayerHeight" type="number" step="0.01" min="0.01" value={settings.firstLayerHeight} onChange={e => setSettings({...settings, firstLayerHeight: parseFloat(e.target.value) || 0.01})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={isLoading}/>
+                                </div>
+                                <div>
+                                    <label htmlFor="layerHeight" className="block text-xs text-gray-400 mb-1">层高 (mm)</label>
+                                    <input id="layerHeight" type="number" step="0.01" min="0.01" value={settings.layerHeight} onChange={e => setSettings({...settings, layerHeight: parseFloat(e.target.value) || 0.01})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={isLoading}/>
+                                </div>
+                                <div>
+                                    <label htmlFor="firstColorLayers" className="block text-xs text-gray-400 mb-1">第一个颜色层数</label>
+                                    <input id="firstColorLayers" type="number" step="1" min="1" value={settings.firstColorLayers} onChange={e => setSettings({...settings, firstColorLayers: Math.max(1, parseInt(e.target.value) || 1)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={isLoading}/>
+                                </div>
+                                <div>
+                                    <label htmlFor="layersPerColor" className="block text-xs text-gray-400 mb-1">其余每色层数</label>
+                                    <input id="layersPerColor" type="number" step="1" min="1" value={settings.layersPerColor} onChange={e => setSettings({...settings, layersPerColor: Math.max(1, parseInt(e.target.value) || 1)})} className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={isLoading}/>
+                                </div>
+                            </div>
+                            {layers && (
+                                <button onClick={applyPrintProfile} disabled={isLoading} className="w-full mt-2 bg-gray-600 hover:bg-gray-500 text-sm py-1 px-2 rounded-md disabled:cursor-not-allowed transition-colors">
+                                    按打印配置重算图层高度
+                                </button>
+                            )}
+                        </div>
+                        <div>
+                            <label htmlFor="seed" className="block text-sm font-medium mb-1">随机种子</label>
+                            <div className="flex gap-2">
+                                <input id="seed" type="number" step="1" min="0" value={settings.seed} onChange={e => setSettings({...settings, seed: Math.max(0, parseInt(e.target.value) || 0)})} className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-2 py-1" disabled={!imageSrc || isLoading}/>
+                                <button onClick={() => setSettings({...settings, seed: randomSeed()})} disabled={!imageSrc || isLoading} className="p-2 bg-gray-600 hover:bg-gray-500 rounded-md disabled:cursor-not-allowed transition-colors" title="换一个种子">
+                                    <Dices size={16} />
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">相同图片、参数和种子总会生成相同的调色板</p>
+                        </div>
                         <button onClick={handleProcess} disabled={!imageSrc || isLoading} className="w-full bg-indigo-600 text-white font-bold py-2 px-4 rounded-md hover:bg-indigo-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors">
                             开始处理
                         </button>
                     </div>
                 </Panel>
+
+                <Panel title="耗材库" icon={<Layers size={20}/>} step="可选">
+                    <FilamentLibraryEditor filaments={filaments} onChange={setFilaments}/>
+                </Panel>
             </div>
 
             <div className="lg:col-span-2 space-y-6">
                 <Panel title="预览" icon={<Ruler size={20}/>} step="查看结果">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                            <h3 className="text-lg font-semibold mb-2 text-center">原始图片</h3>
+                            <div className="flex items-center justify-center gap-3 mb-2">
+                                <h3 className="text-lg font-semibold text-center">原始图片</h3>
+                                <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer" title="显示裁剪、调整和去除背景后实际参与处理的图片">
+                                    <input type="checkbox" checked={showPreprocessed} onChange={e => setShowPreprocessed(e.target.checked)} />
+                                    预处理结果
+                                </label>
+                            </div>
+                            {sourceTool && (
+                                <p className="mb-2 text-xs text-center text-indigo-300">
+                                    {showPreprocessed ? '取消勾选"预处理结果"后在原图上操作' : sourceTool === 'crop' ? '在原图上拖动框选保留区域' : '点击原图吸取背景色'}
+                                </p>
+                            )}
                             <div className="bg-gray-900/50 p-2 rounded-md aspect-square flex items-center justify-center">
-                                {imageSrc ? <canvas ref={originalCanvasRef} className="max-w-full max-h-full object-contain"/> : <p className="text-gray-500">请先上传一张图片</p>}
+                                {imageSrc ? (
+                                    <canvas
+                                        ref={originalCanvasRef}
+                                        className="max-w-full max-h-full object-contain"
+                                        style={{cursor: sourceTool && !showPreprocessed ? 'crosshair' : undefined, touchAction: sourceTool ? 'none' : undefined}}
+                                        onPointerDown={handleSourceDown}
+                                        onPointerMove={handleSourceMove}
+                                        onPointerUp={handleSourceUp}
+                                        onPointerCancel={handleSourceUp}
+                                    />
+                                ) : (
+                                    <p className="text-gray-500">请先上传一张图片</p>
+                                )}
                             </div>
                         </div>
                         <div>
-                            <h3 className="text-lg font-semibold mb-2 text-center">最终效果</h3>
+                            <div className="flex items-center justify-center gap-3 mb-2">
+                                <h3 className="text-lg font-semibold text-center">最终效果</h3>
+                                <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer" title="按耗材透光距离（TD）模拟薄层叠色">
+                                    <input type="checkbox" checked={simulateTransmission} onChange={e => setSimulateTransmission(e.target.checked)} />
+                                    透光模拟
+                                </label>
+                                {processedData && layers && !processedData.depthMap && (
+                                    <button onClick={() => setBrushTool(brushTool ? null : 'paint')} disabled={isLoading} className={`p-1 rounded transition-colors disabled:cursor-not-allowed ${brushTool ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'}`} title={brushTool ? '结束编辑' : '手动修改像素所属的图层'}>
+                                        <Brush size={14} />
+                                    </button>
+                                )}
+                            </div>
+                            {brushTool && layers && !processedData?.depthMap && (
+                                <div className="mb-2 p-2 bg-gray-700/50 rounded-md space-y-2 text-xs">
+                                    <div className="grid grid-cols-3 gap-1">
+                                        {([['paint', '画笔', Brush], ['fill', '填充', PaintBucket], ['erase', '擦除', Eraser]] as const).map(([tool, label, Icon]) => (
+                                            <button key={tool} onClick={() => setBrushTool(tool)} className={`rounded-md py-1 flex items-center justify-center transition-colors ${brushTool === tool ? 'bg-indigo-600' : 'bg-gray-600 hover:bg-gray-500'}`}>
+                                                <Icon size={14} className="mr-1"/> {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {brushTool !== 'fill' && (
+                                        <div>
+                                            <label htmlFor="brushSize" className="block mb-1">笔刷大小: {brushSize} 像素</label>
+                                            <input id="brushSize" type="range" min="1" max={MAX_BRUSH_SIZE} value={brushSize} onChange={e => setBrushSize(parseInt(e.target.value))} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"/>
+                                        </div>
+                                    )}
+                                    {brushTool === 'erase' ? (
+                                        <p className="text-gray-400">擦除的像素改为最底层的颜色</p>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-1">
+                                            {layers.map(layer => (
+                                                <button key={layer.id} onClick={() => setBrushLayerId(layer.id)} className={`w-6 h-6 rounded border-2 transition-colors ${brushLayer?.id === layer.id ? 'border-white' : 'border-gray-500 hover:border-indigo-400'}`} style={{backgroundColor: layer.hex}} title={layer.filamentName ? `${layer.hex} ${layer.filamentName}` : layer.hex}></button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <p className="text-gray-400">每次笔画可用 Ctrl+Z 撤销</p>
+                                </div>
+                            )}
                              <div className="bg-gray-900/50 p-2 rounded-md aspect-square flex items-center justify-center">
                                 {processedData && layers ? (
-                                    <canvas ref={processedCanvasRef} className="max-w-full max-h-full object-contain" style={{imageRendering: 'pixelated'}}/>
+                                    <canvas
+                                        ref={processedCanvasRef}
+                                        className="max-w-full max-h-full object-contain"
+                                        style={{imageRendering: 'pixelated', cursor: brushTool ? 'crosshair' : undefined, touchAction: brushTool ? 'none' : undefined}}
+                                        onPointerDown={handleBrushDown}
+                                        onPointerMove={handleBrushMove}
+                                        onPointerUp={handleBrushUp}
+                                        onPointerCancel={handleBrushUp}
+                                    />
                                 ) : (
                                     <p className="text-gray-500">点击"开始处理"生成结果</p>
                                 )}
                             </div>
                         </div>
                     </div>
+                    {geometryData && (
+                        <div className="mt-4">
+                            <h3 className="text-lg font-semibold mb-2 text-center">
+                                三维预览
+                                {isMeshing && <span className="ml-2 text-xs font-normal text-gray-400">正在更新模型...</span>}
+                            </h3>
+                            <div className="bg-gray-900/50 rounded-md h-96">
+                                <Canvas camera={{ position: [0, maxModelDim, maxModelDim], fov: 45, near: 0.1, far: maxModelDim * 10 }}>
+                                    <Stage environment={null} intensity={1} shadows={false} adjustCamera={1.2}>
+                                        <Model geometryData={geometryData} />
+                                    </Stage>
+                                    <ambientLight intensity={0.6} />
+                                    <directionalLight position={[maxModelDim, maxModelDim * 2, maxModelDim]} intensity={1.2} />
+                                    <Controls />
+                                </Canvas>
+                            </div>
+                        </div>
+                    )}
                 </Panel>
 
                 {layers && (
@@ -938,6 +1569,7 @@ export default function App() {
                                 <li><strong>点击颜色方框</strong>：修改图层颜色</li>
                                 <li><strong>拖拽图层</strong>或使用↑↓按钮：调整顺序</li>
                                 <li><strong>修改数值</strong>：设置图层高度</li>
+                                <li><strong>📌 / 拆分 / 合并</strong>：固定颜色供下次处理使用，或编辑调色板并重新分配像素</li>
                             </ul>
                         </div>
                         <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
@@ -985,29 +1617,121 @@ export default function App() {
                                            title="点击修改颜色"
                                        ></div>
                                    </div>
-                                   <span className="text-sm font-mono flex-1 min-w-0">{layer.hex}</span>
+                                   <div className="flex-1 min-w-0">
+                                       <span className="text-sm font-mono block">{layer.hex}</span>
+                                       <select
+                                           value={filaments.find(f => f.name === layer.filamentName && f.hex === layer.hex)?.id ?? ''}
+                                           onChange={e => assignFilament(layer.id, e.target.value)}
+                                           className="w-full bg-gray-700 border border-gray-600 rounded-md px-1 text-xs text-gray-300"
+                                           title="从耗材库选择"
+                                       >
+                                           <option value="">自定义 (TD {(layer.td ?? DEFAULT_TD).toFixed(1)})</option>
+                                           {filaments.map(f => (
+                                               <option key={f.id} value={f.id}>{f.name} (TD {f.td.toFixed(1)})</option>
+                                           ))}
+                                       </select>
+                                       {layers.length > 1 && (
+                                           <select
+                                               value=""
+                                               onChange={e => mergeLayerInto(layer.id, parseInt(e.target.value))}
+                                               disabled={isLoading}
+                                               className="w-full mt-1 bg-gray-700 border border-gray-600 rounded-md px-1 text-xs text-gray-300"
+                                               title="移除该图层，像素重新分配到其余颜色"
+                                           >
+                                               <option value="">合并到…</option>
+                                               {layers.filter(l => l.id !== layer.id).map(l => (
+                                                   <option key={l.id} value={l.id}>{l.hex}{l.filamentName ? ` ${l.filamentName}` : ''}</option>
+                                               ))}
+                                           </select>
+                                       )}
+                                   </div>
+                                   <div className="flex flex-col space-y-1">
+                                       <button
+                                           onClick={() => togglePin(layer.hex)}
+                                           disabled={isLoading}
+                                           className={`p-1 rounded transition-colors disabled:cursor-not-allowed ${
+                                               settings.pinnedColors.includes(layer.hex.toUpperCase()) ? 'bg-indigo-600 hover:bg-indigo-500' : 'bg-gray-600 hover:bg-gray-500'
+                                           }`}
+                                           title={settings.pinnedColors.includes(layer.hex.toUpperCase()) ? '取消固定' : '固定颜色（下次处理时保持不变）'}
+                                       >
+                                           {settings.pinnedColors.includes(layer.hex.toUpperCase()) ? <PinOff size={14} /> : <Pin size={14} />}
+                                       </button>
+                                       <button
+                                           onClick={() => splitLayerColors(layer.id)}
+                                           disabled={isLoading}
+                                           className="p-1 bg-gray-600 hover:bg-gray-500 rounded disabled:cursor-not-allowed transition-colors"
+                                           title="对该图层的像素重新聚类，拆分为两种颜色"
+                                       >
+                                           <Split size={14} />
+                                       </button>
+                                   </div>
                                    <input 
                                        type="number" 
                                        value={layer.height.toFixed(2)} 
                                        onChange={e => updateLayerHeight(layer.id, parseFloat(e.target.value))} 
-                                       step="0.01" 
-                                       className="w-16 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-right text-sm"
+                                       onBlur={() => snapLayerHeightInput(layer.id)}
+                                       step={settings.layerHeight} 
+                                       title={getLayerHeightIssue(layers, index, settings) ?? '失去焦点时自动吸附到打印层'}
+                                       className={`w-16 bg-gray-700 border rounded-md px-2 py-1 text-right text-sm ${
+                                           getLayerHeightIssue(layers, index, settings) ? 'border-red-500 text-red-300' : 'border-gray-600'
+                                       }`}
                                    />
                                    <span className="text-xs text-gray-400 w-8">mm</span>
                                </div>
                            ))}
                         </div>
+                        <div className="flex items-center gap-2 mt-3">
+                            <input type="color" value={customColor} onChange={e => setCustomColor(e.target.value)} className="w-8 h-8 bg-transparent cursor-pointer" title="自定义颜色" disabled={isLoading}/>
+                            <button onClick={addCustomLayer} disabled={isLoading} className="flex-1 bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed transition-colors" title="在最上方添加该颜色的图层">
+                                <Plus size={14} className="mr-1"/> 添加颜色
+                            </button>
+                            <button onClick={reassignPixels} disabled={isLoading} className="flex-1 bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-sm flex items-center justify-center disabled:cursor-not-allowed transition-colors" title="修改颜色后，按当前图层颜色重新分配所有像素">
+                                <RefreshCw size={14} className="mr-1"/> 重新分配像素
+                            </button>
+                        </div>
                         <div className="mt-4 p-3 bg-indigo-900/30 border border-indigo-700 rounded-md text-sm text-indigo-200">
                             <p className="font-bold mb-1">🖨️ 打印说明</p>
                             <ul className="list-disc list-inside space-y-1 mt-2">
-                                <li><strong>高度值</strong>：表示该颜色打印到的累积高度（从底部开始）</li>
+                                <li><strong>高度值</strong>：表示该颜色打印到的累积高度（从底板顶面开始）</li>
                                 <li><strong>打印顺序</strong>：从上到下依次打印（第一层到最后一层）</li>
-                                <li><strong>换色操作</strong>：在切片软件中，根据高度值设置暂停或换料</li>
+                                <li><strong>换色操作</strong>：在切片软件中，按下方换色层号设置暂停或换料</li>
                             </ul>
                         </div>
-                         <button onClick={handleDownload} disabled={!geometryData || isLoading} className="w-full mt-4 bg-green-600 text-white font-bold py-2 px-4 rounded-md hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center">
+                        <div className="mt-4 p-3 bg-gray-700/50 rounded-md text-sm">
+                            <p className="font-bold mb-2">🔁 换色计划</p>
+                            {swapPlan && (
+                                <>
+                                    <ul className="space-y-1 font-mono text-xs">
+                                        <li className="flex items-center gap-2">
+                                            <span className="w-3 h-3 rounded-sm border border-gray-500" style={{backgroundColor: swapPlan.startHex}}></span>
+                                            第 1 层起：{swapPlan.startHex}
+                                        </li>
+                                        {swapPlan.swaps.map(swap => (
+                                            <li key={swap.layerNumber} className="flex items-center gap-2">
+                                                <span className="w-3 h-3 rounded-sm border border-gray-500" style={{backgroundColor: swap.toHex}}></span>
+                                                第 {swap.layerNumber} 层 (Z={swap.z.toFixed(2)}mm)：换为 {swap.toHex}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    {swapPlan.warnings.length > 0 && (
+                                        <ul className="mt-2 list-disc list-inside text-xs text-yellow-300 space-y-1">
+                                            {swapPlan.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                        </ul>
+                                    )}
+                                    <div className="grid grid-cols-3 gap-2 mt-3">
+                                        <button onClick={() => handleDownloadSwapPlan('txt')} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-xs flex items-center justify-center"><FileText size={14} className="mr-1"/>文本</button>
+                                        <button onClick={() => handleDownloadSwapPlan('json')} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-xs flex items-center justify-center"><FileText size={14} className="mr-1"/>JSON</button>
+                                        <button onClick={() => handleDownloadSwapPlan('gcode')} className="bg-gray-600 hover:bg-gray-500 rounded-md py-1 px-2 text-xs flex items-center justify-center"><FileText size={14} className="mr-1"/>M600 G-code</button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                         <button onClick={handleDownload} disabled={!geometryData || isMeshing || isLoading} className="w-full mt-4 bg-green-600 text-white font-bold py-2 px-4 rounded-md hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center">
                            <Download size={18} className="mr-2"/> 下载 .STL 模型文件
                         </button>
+                        <button onClick={handleDownload3MF} disabled={!processedData || isLoading} className="w-full mt-2 bg-teal-600 text-white font-bold py-2 px-4 rounded-md hover:bg-teal-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center">
+                           <Download size={18} className="mr-2"/> 下载 .3MF 多色模型（AMS / MMU）
+                        </button>
                     </Panel>
                 )}
             </div>
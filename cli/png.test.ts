@@ -0,0 +1,125 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { decodePng } from './png';
+
+interface PngSpec {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  // 每行未滤波的字节
+  rows: number[][];
+  // 每行使用的滤波类型，默认全部为 0
+  filters?: number[];
+  palette?: number[];
+  transparency?: number[];
+  interlace?: number;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// 按 PNG 规范对一行做滤波，解码器需要还原出 row
+const filterRow = (filter: number, row: number[], previous: number[] | null, bytesPerPixel: number): number[] =>
+  row.map((value, x) => {
+    const left = x >= bytesPerPixel ? row[x - bytesPerPixel] : 0;
+    const up = previous ? previous[x] : 0;
+    const upLeft = previous && x >= bytesPerPixel ? previous[x - bytesPerPixel] : 0;
+    const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter];
+    return (value - predictor) & 0xFF;
+  });
+
+const chunk = (type: string, data: number[] | Uint8Array): number[] => {
+  const length = data.length;
+  // 解码器不校验 CRC，这里写 0
+  return [length >>> 24, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF, ...Array.from(type, c => c.charCodeAt(0)), ...data, 0, 0, 0, 0];
+};
+
+const u32 = (n: number): number[] => [n >>> 24, (n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF];
+
+const encodePng = (spec: PngSpec): Uint8Array => {
+  const bytesPerPixel = Math.max(1, (CHANNELS[spec.colorType] * spec.bitDepth) >> 3);
+  const raw = spec.rows.flatMap((row, y) => {
+    const filter = spec.filters?.[y] ?? 0;
+    return [filter, ...filterRow(filter, row, y > 0 ? spec.rows[y - 1] : null, bytesPerPixel)];
+  });
+  return Uint8Array.from([
+    0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A,
+    ...chunk('IHDR', [...u32(spec.width), ...u32(spec.height), spec.bitDepth, spec.colorType, 0, 0, spec.interlace ?? 0]),
+    ...(spec.palette ? chunk('PLTE', spec.palette) : []),
+    ...(spec.transparency ? chunk('tRNS', spec.transparency) : []),
+    ...chunk('IDAT', deflateSync(Uint8Array.from(raw))),
+    ...chunk('IEND', []),
+  ]);
+};
+
+// 解码结果按像素列出 [r, g, b, a]
+const pixelsOf = (spec: PngSpec): number[][] => {
+  const { data } = decodePng(encodePng(spec));
+  return Array.from({ length: data.length / 4 }, (_, i) => Array.from(data.subarray(i * 4, i * 4 + 4)));
+};
+
+describe('decodePng', () => {
+  it('decodes grayscale and applies its transparent gray from tRNS', () => {
+    expect(pixelsOf({ width: 3, height: 1, bitDepth: 8, colorType: 0, rows: [[0, 128, 255]], transparency: [0, 128] })).toEqual([
+      [0, 0, 0, 255], [128, 128, 128, 0], [255, 255, 255, 255],
+    ]);
+  });
+
+  it('scales low bit depth grayscale to 0-255 and matches tRNS on the raw value', () => {
+    // 2 位灰度：0、1、2、3 → 0、85、170、255
+    expect(pixelsOf({ width: 4, height: 1, bitDepth: 2, colorType: 0, rows: [[0b00011011]], transparency: [0, 2] })).toEqual([
+      [0, 0, 0, 255], [85, 85, 85, 255], [170, 170, 170, 0], [255, 255, 255, 255],
+    ]);
+  });
+
+  it('decodes truecolor and applies its transparent color from tRNS', () => {
+    const rows = [[255, 0, 0, 0, 255, 0, 255, 0, 1]];
+    expect(pixelsOf({ width: 3, height: 1, bitDepth: 8, colorType: 2, rows, transparency: [0, 0, 0, 255, 0, 0] })).toEqual([
+      [255, 0, 0, 255], [0, 255, 0, 0], [255, 0, 1, 255],
+    ]);
+  });
+
+  it('compares 16-bit transparent colors on all 16 bits', () => {
+    const rows = [[0x12, 0x34, 0, 0, 0xFF, 0xFF, 0x12, 0xFF, 0, 0, 0xFF, 0xFF]];
+    const transparency = [0x12, 0x34, 0, 0, 0xFF, 0xFF];
+    expect(pixelsOf({ width: 2, height: 1, bitDepth: 16, colorType: 2, rows, transparency })).toEqual([
+      [0x12, 0, 0xFF, 0], [0x12, 0, 0xFF, 255],
+    ]);
+  });
+
+  it('decodes palette images with per-entry transparency', () => {
+    // 4 位索引：0、1、2，tRNS 只覆盖前两个调色板项
+    const palette = [255, 0, 0, 0, 255, 0, 0, 0, 255];
+    expect(pixelsOf({ width: 3, height: 1, bitDepth: 4, colorType: 3, rows: [[0x01, 0x20]], palette, transparency: [0, 128] })).toEqual([
+      [255, 0, 0, 0], [0, 255, 0, 128], [0, 0, 255, 255],
+    ]);
+  });
+
+  it('decodes 16-bit grayscale with alpha', () => {
+    expect(pixelsOf({ width: 2, height: 1, bitDepth: 16, colorType: 4, rows: [[0xFF, 0x00, 0x80, 0x00, 0x40, 0x00, 0xFF, 0xFF]] })).toEqual([
+      [255, 255, 255, 128], [64, 64, 64, 255],
+    ]);
+  });
+
+  it('reverses every filter type', () => {
+    const rows = Array.from({ length: 5 }, (_, y) => Array.from({ length: 3 * 4 }, (_, x) => (x * 37 + y * 91 + ((x * y) % 7) * 29) & 0xFF));
+    const { data, width, height } = decodePng(encodePng({ width: 3, height: 5, bitDepth: 8, colorType: 6, rows, filters: [0, 1, 2, 3, 4] }));
+    expect([width, height]).toEqual([3, 5]);
+    expect(Array.from(data)).toEqual(rows.flat());
+  });
+
+  it('rejects files it cannot decode', () => {
+    expect(() => decodePng(new Uint8Array(16))).toThrow('不是 PNG 文件');
+    expect(() => decodePng(encodePng({ width: 1, height: 1, bitDepth: 8, colorType: 0, rows: [[0]], interlace: 1 }))).toThrow('不支持隔行扫描的 PNG');
+    expect(() => decodePng(encodePng({ width: 1, height: 1, bitDepth: 8, colorType: 3, rows: [[0]] }))).toThrow('PNG 缺少调色板');
+  });
+});
@@ -0,0 +1,138 @@
+import { inflateSync } from 'node:zlib';
+import { RasterImage } from '../types';
+import { createRaster } from '../utils/raster';
+
+// 最小化的 PNG 解码器：支持 8/16 位灰度、灰度+透明、真彩色、RGBA 和 1/2/4/8 位调色板图，
+// 以及 tRNS 块给出的调色板透明度和灰度 / 真彩色的透明色，不支持隔行扫描
+
+const SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+// 每种颜色类型的通道数
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+export const decodePng = (file: Uint8Array): RasterImage => {
+  if (SIGNATURE.some((byte, i) => file[i] !== byte)) {
+    throw new Error('不是 PNG 文件');
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= file.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('不支持隔行扫描的 PNG');
+      if (!(colorType in CHANNELS)) throw new Error(`不支持的 PNG 颜色类型 ${colorType}`);
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || compressed.length === 0) throw new Error('PNG 文件不完整');
+  if (colorType === 3 && !palette) throw new Error('PNG 缺少调色板');
+
+  const raw = inflateSync(Buffer.concat(compressed));
+  const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  if (raw.length < height * (stride + 1)) throw new Error('PNG 数据长度不正确');
+
+  // 逐行反滤波
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? pixels[out + x - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? pixels[out - stride + x - bytesPerPixel] : 0;
+      let value = line[x];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) value += paeth(left, up, upLeft);
+      pixels[out + x] = value;
+    }
+  }
+
+  // 第 index 个采样的原始值，16 位图为完整的 16 位值
+  const rawSample = (y: number, index: number): number => {
+    if (bitDepth === 8) return pixels[y * stride + index];
+    if (bitDepth === 16) return (pixels[y * stride + index * 2] << 8) | pixels[y * stride + index * 2 + 1];
+    const bit = index * bitDepth;
+    return (pixels[y * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+  };
+  // 读取第 index 个采样值，统一换算到 0-255（调色板索引保持原值）
+  const sample = (y: number, index: number): number => {
+    const value = rawSample(y, index);
+    if (bitDepth === 8 || colorType === 3) return value;
+    if (bitDepth === 16) return value >> 8;
+    return Math.round((value * 255) / ((1 << bitDepth) - 1));
+  };
+
+  // 灰度和真彩色图的 tRNS 块给出一个透明色，按原始采样值比较，每个通道占 2 字节
+  const keyChannels = colorType === 0 ? 1 : colorType === 2 ? 3 : 0;
+  const transparentKey = transparency && keyChannels > 0 && transparency.length >= keyChannels * 2
+    ? Array.from({ length: keyChannels }, (_, c) => (transparency![c * 2] << 8) | transparency![c * 2 + 1])
+    : null;
+  const isTransparentKey = (y: number, x: number): boolean =>
+    transparentKey !== null && transparentKey.every((key, c) => rawSample(y, x * keyChannels + c) === key);
+
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r: number, g: number, b: number, a = 255;
+      if (colorType === 3) {
+        const index = sample(y, x);
+        r = palette![index * 3];
+        g = palette![index * 3 + 1];
+        b = palette![index * 3 + 2];
+        if (transparency && index < transparency.length) a = transparency[index];
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = sample(y, x * CHANNELS[colorType]);
+        if (colorType === 4) a = sample(y, x * 2 + 1);
+        else if (isTransparentKey(y, x)) a = 0;
+      } else {
+        const channels = CHANNELS[colorType];
+        r = sample(y, x * channels);
+        g = sample(y, x * channels + 1);
+        b = sample(y, x * channels + 2);
+        if (colorType === 6) a = sample(y, x * 4 + 3);
+        else if (isTransparentKey(y, x)) a = 0;
+      }
+      image.data[o] = r;
+      image.data[o + 1] = g;
+      image.data[o + 2] = b;
+      image.data[o + 3] = a;
+    }
+  }
+  return image;
+};
@@ -0,0 +1,291 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BackgroundRemoval, ColorSpace, CropRect, DitherMethod, GeometryMode, HangerType, OutlineShape, TextMode, PaletteSource, PreprocessSettings, ReliefMode, Settings } from '../types';
+import {
+  DEFAULT_FRAME,
+  DEFAULT_LABEL,
+  DEFAULT_PREPROCESS,
+  DEFAULT_SETTINGS,
+  buildSwapPlan,
+  describeMeshIssues,
+  formatSwapPlanText,
+  generate3MF,
+  generateRelief,
+  generateSTL,
+  validateMesh,
+  withBaseThickness,
+} from '../lib';
+import { decodePng } from './png';
+
+// 命令行批量生成浮雕模型：relief input.png --colors 4 --width 100 -o out.stl
+
+const DITHER_METHODS: readonly DitherMethod[] = [
+  'floyd-steinberg', 'atkinson', 'jarvis-judice-ninke', 'stucki', 'sierra', 'bayer', 'blue-noise',
+];
+
+const OUTLINE_SHAPES: readonly OutlineShape[] = ['rectangle', 'alpha', 'circle', 'oval', 'rounded', 'hexagon'];
+
+const USAGE = `用法: relief <input.png> [选项]
+
+选项:
+  -o, --output <file>       输出文件，扩展名为 .stl 或 .3mf（默认 <input>.stl）
+  -c, --colors <n>          颜色数量 2-16（默认 ${DEFAULT_SETTINGS.numColors}）
+  -w, --width <mm>          模型宽度（默认 ${DEFAULT_SETTINGS.modelWidth}）
+      --base <mm>           底板厚度（默认 ${DEFAULT_SETTINGS.baseThickness}）
+      --pixel-size <mm>     线宽，决定处理分辨率（默认 ${DEFAULT_SETTINGS.pixelSize}）
+      --relief <mode>       浮雕模式 color | luminance（默认 ${DEFAULT_SETTINGS.reliefMode}）
+      --depth <file.png>    亮度浮雕使用的深度图（默认使用原图亮度）
+      --invert-depth        亮度浮雕中越暗越高
+      --mode <mode>         几何模式 smooth | terraced（默认 ${DEFAULT_SETTINGS.geometryMode}）
+      --outline <shape>     模型外形 ${OUTLINE_SHAPES.join(' | ')}
+                            （默认 ${DEFAULT_SETTINGS.outline}，alpha 跟随图片透明区域）
+      --corner-radius <mm>  圆角矩形的圆角半径（默认 ${DEFAULT_SETTINGS.cornerRadius}）
+      --color-space <s>     颜色空间 rgb | lab | oklab（默认 ${DEFAULT_SETTINGS.colorSpace}）
+      --pin <#RRGGBB>       固定调色板颜色，可重复使用，计入颜色数量
+      --palette <source>    调色板来源 auto | snap | pick（默认 ${DEFAULT_SETTINGS.paletteSource}）
+      --seed <n>            随机种子（默认 ${DEFAULT_SETTINGS.seed}）
+      --no-dither           关闭抖动
+      --dither <method>     抖动算法 ${DITHER_METHODS.join(' | ')}
+                            （默认 ${DEFAULT_SETTINGS.ditherMethod}）
+      --serpentine          误差扩散时使用蛇形扫描
+      --dither-strength <n> 抖动强度 0-1（默认 ${DEFAULT_SETTINGS.ditherStrength}）
+      --edges               开启边缘保护
+      --swap-plan <file>    同时输出换色计划文本
+
+预处理:
+      --crop <x,y,w,h>      裁剪框，均为相对原图宽高的比例 0-1
+      --rotate <deg>        顺时针旋转 0 | 90 | 180 | 270
+      --flip-h, --flip-v    水平 / 垂直翻转
+      --brightness <n>      亮度 -100 到 100
+      --contrast <n>        对比度 -100 到 100
+      --gamma <n>           Gamma（默认 1）
+      --blur <px>           模糊半径（工作分辨率像素）
+      --denoise             3×3 中值降噪
+      --remove-bg <mode>    去除背景 color-key | flood-fill
+      --bg-color <#RRGGBB>  背景色（默认 ${DEFAULT_PREPROCESS.backgroundColor}）
+      --bg-tolerance <n>    背景色差容差 0-100（默认 ${DEFAULT_PREPROCESS.backgroundTolerance}）
+
+边框与挂孔:
+      --frame <mm>          沿外形内缘的边框宽度（默认不加边框）
+      --frame-height <mm>   边框高出所在图层的高度（默认 ${DEFAULT_FRAME.height}）
+      --frame-layer <n>     边框颜色所在的图层序号，从 1 开始（默认 ${DEFAULT_FRAME.layer + 1}）
+      --chamfer <mm>        外缘 45° 倒角尺寸（默认不倒角）
+      --hanger <type>       挂孔 keyhole | keychain
+      --hanger-pos <x,y>    挂孔圆心，相对图片宽高的比例 0-1（默认 ${DEFAULT_FRAME.hangerX},${DEFAULT_FRAME.hangerY}）
+      --hanger-size <mm>    挂孔直径（默认 ${DEFAULT_FRAME.hangerDiameter}）
+
+文字:
+      --text <string>       在浮雕上添加文字，\n 换行
+      --font <family>       字体（默认 ${DEFAULT_LABEL.font}）；命令行中没有浏览器字体，
+                            总是使用内置的 5×7 点阵字体（英文字母、数字和常用符号）
+      --text-size <mm>      字高（默认 ${DEFAULT_LABEL.size}）
+      --text-pos <x,y>      文字中心，相对图片宽高的比例 0-1（默认 ${DEFAULT_LABEL.x},${DEFAULT_LABEL.y}）
+      --text-layer <n>      文字所在的图层序号，从 1 开始（默认最上面的图层）
+      --text-mode <mode>    raised | engraved（默认 ${DEFAULT_LABEL.mode}）
+      --text-depth <mm>     凸起文字高出所在图层的高度（默认 ${DEFAULT_LABEL.depth}）
+  -h, --help                显示帮助
+`;
+
+const parseNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} 需要一个数字，收到 "${value}"`);
+  return parsed;
+};
+
+const parseChoice = <T extends string>(value: string | undefined, name: string, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) throw new Error(`--${name} 只能是 ${choices.join(' | ')}，收到 "${value}"`);
+  return value as T;
+};
+
+const parseHexColor = (value: string, name: string): string => {
+  const hex = value.startsWith('#') ? value : `#${value}`;
+  if (!/^#[0-9a-fA-F]{6}$/.test(hex)) throw new Error(`--${name} 需要 #RRGGBB 格式的颜色，收到 "${value}"`);
+  return hex.toUpperCase();
+};
+
+const parseCrop = (value: string): CropRect => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n) || n < 0 || n > 1) || parts[2] <= 0 || parts[3] <= 0) {
+    throw new Error(`--crop 需要 4 个 0-1 之间的比例 x,y,w,h，收到 "${value}"`);
+  }
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+};
+
+const parsePosition = (value: string, name: string): [number, number] => {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 2 || parts.some(n => !Number.isFinite(n) || n < 0 || n > 1)) {
+    throw new Error(`--${name} 需要 2 个 0-1 之间的比例 x,y，收到 "${value}"`);
+  }
+  return [parts[0], parts[1]];
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      colors: { type: 'string', short: 'c' },
+      width: { type: 'string', short: 'w' },
+      base: { type: 'string' },
+      'pixel-size': { type: 'string' },
+      relief: { type: 'string' },
+      depth: { type: 'string' },
+      'invert-depth': { type: 'boolean' },
+      mode: { type: 'string' },
+      outline: { type: 'string' },
+      'corner-radius': { type: 'string' },
+      'color-space': { type: 'string' },
+      pin: { type: 'string', multiple: true },
+      palette: { type: 'string' },
+      seed: { type: 'string' },
+      'no-dither': { type: 'boolean' },
+      dither: { type: 'string' },
+      serpentine: { type: 'boolean' },
+      'dither-strength': { type: 'string' },
+      edges: { type: 'boolean' },
+      'swap-plan': { type: 'string' },
+      crop: { type: 'string' },
+      rotate: { type: 'string' },
+      'flip-h': { type: 'boolean' },
+      'flip-v': { type: 'boolean' },
+      brightness: { type: 'string' },
+      contrast: { type: 'string' },
+      gamma: { type: 'string' },
+      blur: { type: 'string' },
+      denoise: { type: 'boolean' },
+      'remove-bg': { type: 'string' },
+      'bg-color': { type: 'string' },
+      'bg-tolerance': { type: 'string' },
+      frame: { type: 'string' },
+      'frame-height': { type: 'string' },
+      'frame-layer': { type: 'string' },
+      chamfer: { type: 'string' },
+      hanger: { type: 'string' },
+      'hanger-pos': { type: 'string' },
+      'hanger-size': { type: 'string' },
+      text: { type: 'string' },
+      font: { type: 'string' },
+      'text-size': { type: 'string' },
+      'text-pos': { type: 'string' },
+      'text-layer': { type: 'string' },
+      'text-mode': { type: 'string' },
+      'text-depth': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    process.stdout.write(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const input = positionals[0];
+  const output = values.output ?? input.replace(/\.[^./\\]*$/, '') + '.stl';
+  const format = extname(output).toLowerCase();
+  if (format !== '.stl' && format !== '.3mf') throw new Error('输出文件扩展名必须是 .stl 或 .3mf');
+
+  const [hangerX, hangerY] = values['hanger-pos'] ? parsePosition(values['hanger-pos'], 'hanger-pos') : [DEFAULT_FRAME.hangerX, DEFAULT_FRAME.hangerY];
+  const [textX, textY] = values['text-pos'] ? parsePosition(values['text-pos'], 'text-pos') : [DEFAULT_LABEL.x, DEFAULT_LABEL.y];
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    numColors: Math.round(parseNumber(values.colors, 'colors', DEFAULT_SETTINGS.numColors)),
+    pinnedColors: (values.pin ?? []).map(pin => parseHexColor(pin, 'pin')),
+    modelWidth: parseNumber(values.width, 'width', DEFAULT_SETTINGS.modelWidth),
+    baseThickness: parseNumber(values.base, 'base', DEFAULT_SETTINGS.baseThickness),
+    pixelSize: parseNumber(values['pixel-size'], 'pixel-size', DEFAULT_SETTINGS.pixelSize),
+    reliefMode: parseChoice<ReliefMode>(values.relief, 'relief', ['color', 'luminance'], values.depth ? 'luminance' : DEFAULT_SETTINGS.reliefMode),
+    invertDepth: Boolean(values['invert-depth']),
+    geometryMode: parseChoice<GeometryMode>(values.mode, 'mode', ['smooth', 'terraced'], DEFAULT_SETTINGS.geometryMode),
+    outline: parseChoice(values.outline, 'outline', OUTLINE_SHAPES, DEFAULT_SETTINGS.outline),
+    cornerRadius: parseNumber(values['corner-radius'], 'corner-radius', DEFAULT_SETTINGS.cornerRadius),
+    colorSpace: parseChoice<ColorSpace>(values['color-space'], 'color-space', ['rgb', 'lab', 'oklab'], DEFAULT_SETTINGS.colorSpace),
+    paletteSource: parseChoice<PaletteSource>(values.palette, 'palette', ['auto', 'snap', 'pick'], DEFAULT_SETTINGS.paletteSource),
+    seed: Math.round(parseNumber(values.seed, 'seed', DEFAULT_SETTINGS.seed)),
+    dithering: !values['no-dither'],
+    ditherMethod: parseChoice(values.dither, 'dither', DITHER_METHODS, DEFAULT_SETTINGS.ditherMethod),
+    serpentine: Boolean(values.serpentine),
+    ditherStrength: parseNumber(values['dither-strength'], 'dither-strength', DEFAULT_SETTINGS.ditherStrength),
+    edgePreservation: Boolean(values.edges),
+    frame: {
+      width: parseNumber(values.frame, 'frame', DEFAULT_FRAME.width),
+      height: parseNumber(values['frame-height'], 'frame-height', DEFAULT_FRAME.height),
+      layer: Math.round(parseNumber(values['frame-layer'], 'frame-layer', DEFAULT_FRAME.layer + 1)) - 1,
+      chamfer: parseNumber(values.chamfer, 'chamfer', DEFAULT_FRAME.chamfer),
+      hanger: parseChoice<HangerType>(values.hanger, 'hanger', ['keyhole', 'keychain'], DEFAULT_FRAME.hanger),
+      hangerX,
+      hangerY,
+      hangerDiameter: parseNumber(values['hanger-size'], 'hanger-size', DEFAULT_FRAME.hangerDiameter),
+    },
+    labels: values.text ? [{
+      ...DEFAULT_LABEL,
+      text: values.text.replace(/\\n/g, '\n'),
+      font: values.font ?? DEFAULT_LABEL.font,
+      size: parseNumber(values['text-size'], 'text-size', DEFAULT_LABEL.size),
+      x: textX,
+      y: textY,
+      // 图层序号超出范围时取最近的图层，默认落在最上面的图层
+      layer: Math.round(parseNumber(values['text-layer'], 'text-layer', Infinity)) - 1,
+      mode: parseChoice<TextMode>(values['text-mode'], 'text-mode', ['raised', 'engraved'], DEFAULT_LABEL.mode),
+      depth: parseNumber(values['text-depth'], 'text-depth', DEFAULT_LABEL.depth),
+    }] : [],
+    preprocess: {
+      ...DEFAULT_PREPROCESS,
+      crop: values.crop ? parseCrop(values.crop) : null,
+      rotation: Number(parseChoice(values.rotate, 'rotate', ['0', '90', '180', '270'], '0')) as PreprocessSettings['rotation'],
+      flipHorizontal: Boolean(values['flip-h']),
+      flipVertical: Boolean(values['flip-v']),
+      brightness: parseNumber(values.brightness, 'brightness', DEFAULT_PREPROCESS.brightness),
+      contrast: parseNumber(values.contrast, 'contrast', DEFAULT_PREPROCESS.contrast),
+      gamma: parseNumber(values.gamma, 'gamma', DEFAULT_PREPROCESS.gamma),
+      blurRadius: parseNumber(values.blur, 'blur', DEFAULT_PREPROCESS.blurRadius),
+      denoise: Boolean(values.denoise),
+      background: parseChoice<BackgroundRemoval>(values['remove-bg'], 'remove-bg', ['color-key', 'flood-fill'], DEFAULT_PREPROCESS.background),
+      backgroundColor: values['bg-color'] ? parseHexColor(values['bg-color'], 'bg-color') : DEFAULT_PREPROCESS.backgroundColor,
+      backgroundTolerance: parseNumber(values['bg-tolerance'], 'bg-tolerance', DEFAULT_PREPROCESS.backgroundTolerance),
+    },
+  };
+  if (settings.numColors < 2 || settings.numColors > 16) throw new Error('--colors 必须在 2 到 16 之间');
+  if (settings.ditherStrength < 0 || settings.ditherStrength > 1) throw new Error('--dither-strength 必须在 0 到 1 之间');
+  if (settings.modelWidth <= 0 || settings.pixelSize <= 0) throw new Error('--width 和 --pixel-size 必须大于 0');
+  if (settings.frame.hangerDiameter <= 0) throw new Error('--hanger-size 必须大于 0');
+  if (settings.labels.some(label => label.size <= 0)) throw new Error('--text-size 必须大于 0');
+
+  const image = decodePng(await readFile(input));
+  const depthImage = values.depth ? decodePng(await readFile(values.depth)) : undefined;
+  // 进度只在终端中原地刷新，重定向到文件时不输出
+  const { processed, mesh } = generateRelief(image, settings, undefined, message => {
+    if (process.stderr.isTTY) process.stderr.write(`\r\x1b[K${message}`);
+  }, depthImage);
+  if (process.stderr.isTTY) process.stderr.write('\r\x1b[K');
+
+  const report = validateMesh(mesh.positions, mesh.indices);
+  if (!report.isValid) {
+    process.stderr.write(`警告：网格检查未通过\n${describeMeshIssues(report).join('\n')}\n`);
+  }
+
+  const data = format === '.3mf'
+    ? new Uint8Array(await (await generate3MF(processed, processed.layers, settings)).arrayBuffer())
+    : new Uint8Array(generateSTL(mesh.positions, mesh.indices));
+  await writeFile(output, data);
+
+  if (values['swap-plan']) {
+    const plan = buildSwapPlan(withBaseThickness(processed.layers, settings.baseThickness), settings.firstLayerHeight, settings.layerHeight);
+    await writeFile(values['swap-plan'], formatSwapPlanText(plan));
+  }
+
+  process.stderr.write(
+    `${output}: ${processed.width}×${processed.height} 像素，${processed.layers.length} 色，` +
+    `${report.triangleCount} 个三角形，${mesh.width.toFixed(1)}×${mesh.height.toFixed(1)}×${mesh.depth.toFixed(2)} mm\n` +
+    processed.layers.map((layer, i) => `  ${i + 1}. ${layer.hex}  ${layer.height.toFixed(2)} mm`).join('\n') + '\n'
+  );
+};
+
+main().catch(error => {
+  process.stderr.write(`relief: ${error instanceof Error ? error.message : error}\n`);
+  process.exitCode = 1;
+});
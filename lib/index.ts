@@ -0,0 +1,51 @@
+import { Filament, MeshBuffers, ProcessedData, RasterImage, Settings } from '../types';
+import { DEFAULT_FILAMENTS } from '../utils/filaments';
+import { buildReliefMesh } from '../utils/mesh';
+import { ProgressCallback, quantizeImage } from '../utils/quantize';
+import { resizeRaster } from '../utils/raster';
+import { getWorkingResolution } from '../utils/settings';
+import { preprocessImage, transformRaster, transformedSize } from '../utils/preprocess';
+import { resolveOutlineMask } from '../utils/outline';
+
+// 无 DOM 依赖的核心流程：RGBA 像素 → 预处理 → 颜色量化与图层高度 → 浮雕网格 → STL / 3MF。
+// 网页中的 Worker 与命令行工具使用的是同一套实现。
+
+export type { Filament, FrameSettings, HangerType, Layer, TextLabel, TextMode, MeshBuffers, MeshSettings, MeshValidationReport, PreprocessSettings, OutlineShape, ProcessedData, RasterImage, ReliefMode, Settings, SwapPlan } from '../types';
+export { DEFAULT_SETTINGS, DEFAULT_PREPROCESS, DEFAULT_FRAME, DEFAULT_LABEL, MAX_WORKING_DIM, getWorkingResolution } from '../utils/settings';
+export { preprocessImage, transformRaster, transformedSize } from '../utils/preprocess';
+export { DEFAULT_FILAMENTS } from '../utils/filaments';
+export { createRaster, resizeRaster } from '../utils/raster';
+export { quantizeImage, remapImage } from '../utils/quantize';
+export { mergeLayers, addLayer, splitLayer, collectLayerPixels } from '../utils/palette';
+export { recalculateLayerHeights, withBaseThickness } from '../utils/layers';
+export { computeDepthMap, assignHeightBands } from '../utils/depth';
+export { extractAlphaMask, shapeMask, resolveOutlineMask } from '../utils/outline';
+export { edgeDistance, resolveFrameLayout } from '../utils/frame';
+export { PIXEL_FONT, rasterizeLabel, resolveLabelMasks } from '../utils/text';
+export { buildReliefMesh } from '../utils/mesh';
+export { validateMesh, describeMeshIssues } from '../utils/meshValidation';
+export { generateSTL } from '../utils/stl';
+export { generate3MF } from '../utils/export3mf';
+export { buildSwapPlan, formatSwapPlanText, formatSwapPlanJson, formatSwapPlanGcode } from '../utils/swapPlan';
+
+export interface ReliefResult {
+  processed: ProcessedData;
+  mesh: MeshBuffers;
+}
+
+// 原图先经过裁剪、旋转等预处理并按模型宽度和线宽缩放到工作分辨率，再量化并生成网格；
+// 图层按亮度从暗到亮排列。亮度浮雕模式下可传入深度图，它只做相同的几何变换和缩放
+export const generateRelief = (
+  image: RasterImage,
+  settings: Settings,
+  filaments: Filament[] = DEFAULT_FILAMENTS,
+  onProgress?: ProgressCallback,
+  depthImage?: RasterImage
+): ReliefResult => {
+  const oriented = transformedSize(image.width, image.height, settings.preprocess);
+  const size = getWorkingResolution(oriented.width, oriented.height, settings);
+  const depth = depthImage ? resizeRaster(transformRaster(depthImage, settings.preprocess), size.width, size.height) : undefined;
+  const processed = quantizeImage(preprocessImage(image, settings.preprocess, size), settings, filaments, onProgress, depth);
+  const mesh = buildReliefMesh(processed.heightMap, processed.width, processed.height, processed.layers, settings, processed.depthMap, resolveOutlineMask(processed, settings));
+  return { processed, mesh };
+};
@@ -1,4 +1,4 @@
-import { BufferGeometry } from 'three';
+import { BufferGeometry, DataTexture } from 'three';
 
 export type RGBColor = [number, number, number];
 
@@ -7,28 +7,243 @@ export interface Layer {
   color: RGBColor;
   hex: string;
   height: number;
+  td?: number;
+  filamentName?: string;
+}
+
+export interface Filament {
+  id: string;
+  name: string;
+  hex: string;
+  td: number;
+}
+
+// 聚类、最近色匹配和抖动使用的颜色空间
+export type ColorSpace = 'rgb' | 'lab' | 'oklab';
+
+// auto: 自由聚类；snap: 聚类后吸附到耗材库；pick: 直接从耗材库挑选
+export type PaletteSource = 'auto' | 'snap' | 'pick';
+
+// smooth: 像素中心之间以斜面相连；terraced: 每个像素为平顶柱子，高度变化处为竖直侧壁
+export type GeometryMode = 'smooth' | 'terraced';
+
+// color: 像素高度由量化颜色所在的图层决定；
+// luminance: 高度随原图亮度（或单独的深度图）连续变化，颜色按高度区间分配到图层
+export type ReliefMode = 'color' | 'luminance';
+
+// 模型外形：rectangle 为整张图片；alpha 跟随图片的不透明区域；其余为居中的几何形状
+export type OutlineShape = 'rectangle' | 'alpha' | 'circle' | 'oval' | 'rounded' | 'hexagon';
+
+// keyhole: 葫芦形挂墙孔（圆孔上方接一条窄槽）；keychain: 带加强环的钥匙扣孔
+export type HangerType = 'none' | 'keyhole' | 'keychain';
+
+// 边框、倒角和挂孔，尺寸均以 mm 计
+export interface FrameSettings {
+  // 沿外形内缘的边框宽度，0 为不加边框
+  width: number;
+  // 边框顶面高出所选图层顶面的高度，0 为与该图层齐平
+  height: number;
+  // 边框颜色所在的图层（打印顺序，从 0 开始），钥匙扣孔的加强环也使用这个图层
+  layer: number;
+  // 外缘 45° 倒角的尺寸，0 为直角
+  chamfer: number;
+  hanger: HangerType;
+  // 挂孔圆心，相对图片宽高的比例（0-1）
+  hangerX: number;
+  hangerY: number;
+  hangerDiameter: number;
+}
+
+// raised: 文字凸起；engraved: 文字刻入浮雕，底面露出所选图层
+export type TextMode = 'raised' | 'engraved';
+
+// 浮雕上的文字标签
+export interface TextLabel {
+  text: string;
+  // CSS 字体族；'pixel' 为内置的 5×7 点阵字体，不依赖浏览器，命令行中也可使用
+  font: string;
+  bold: boolean;
+  // 字高（mm）
+  size: number;
+  // 文字中心，相对图片宽高的比例（0-1）
+  x: number;
+  y: number;
+  // 文字颜色所在的图层（打印顺序，从 0 开始）
+  layer: number;
+  mode: TextMode;
+  // 凸起文字高出所选图层顶面的高度（mm），刻字时不使用
+  depth: number;
+}
+
+// 误差扩散（floyd-steinberg 等）或有序抖动（bayer、blue-noise）
+export type DitherMethod =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'jarvis-judice-ninke'
+  | 'stucki'
+  | 'sierra'
+  | 'bayer'
+  | 'blue-noise';
+
+// 裁剪框，坐标与尺寸都是相对原图宽高的比例（0-1）
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// color-key: 去除所有接近背景色的像素；flood-fill: 只去除从图片边缘连通过来的背景
+export type BackgroundRemoval = 'none' | 'color-key' | 'flood-fill';
+
+// 量化之前对原图的预处理，依次为裁剪、旋转翻转、缩放、去背景、降噪模糊和色阶
+export interface PreprocessSettings {
+  crop: CropRect | null;
+  // 裁剪框宽高比，null 为自由裁剪
+  cropAspect: number | null;
+  // 顺时针旋转角度
+  rotation: 0 | 90 | 180 | 270;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // -100 到 100，0 为不调整
+  brightness: number;
+  contrast: number;
+  // 1 为不调整，大于 1 提亮暗部
+  gamma: number;
+  // 盒式模糊半径（工作分辨率下的像素），0 为不模糊
+  blurRadius: number;
+  // 3×3 中值滤波，去除孤立噪点
+  denoise: boolean;
+  background: BackgroundRemoval;
+  backgroundColor: string;
+  // 0-100，与背景色的允许色差
+  backgroundTolerance: number;
 }
 
 export interface Settings {
   numColors: number;
+  // 聚类前固定的调色板颜色（十六进制），计入 numColors
+  pinnedColors: string[];
   baseThickness: number;
   modelWidth: number;
   pixelSize: number;
   dithering: boolean;
+  ditherMethod: DitherMethod;
+  // 误差扩散时奇数行从右向左扫描，减少同向拖尾纹理
+  serpentine: boolean;
+  // 0-1，按比例减弱扩散的误差或有序抖动的幅度
+  ditherStrength: number;
   edgePreservation: boolean;
+  firstLayerHeight: number;
+  layerHeight: number;
+  firstColorLayers: number;
+  layersPerColor: number;
+  paletteSource: PaletteSource;
+  colorSpace: ColorSpace;
+  seed: number;
+  geometryMode: GeometryMode;
+  reliefMode: ReliefMode;
+  // 亮度浮雕中反转深浅：默认越亮越高，反转后越暗越厚（透光灯片）
+  invertDepth: boolean;
+  outline: OutlineShape;
+  // 圆角矩形外形的圆角半径（mm）
+  cornerRadius: number;
+  frame: FrameSettings;
+  labels: TextLabel[];
+  preprocess: PreprocessSettings;
+}
+
+// 生成网格时读取的参数，外形已经由外形掩码给出
+export type MeshSettings = Pick<Settings, 'modelWidth' | 'baseThickness' | 'firstLayerHeight' | 'geometryMode' | 'frame' | 'labels'>;
+
+// 不依赖 DOM 的 RGBA 像素缓冲，浏览器中的 ImageData 可以直接传入
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
 }
 
 export interface ProcessedData {
   layers: Layer[];
-  processedImage: ImageData;
+  processedImage: RasterImage;
   heightMap: Uint8Array;
+  // 亮度浮雕模式下每个像素的相对高度（0-1），此时 heightMap 由它按图层高度区间得出
+  depthMap?: Float32Array;
+  // 原图含透明像素时记录不透明的像素（1），用于 alpha 外形
+  alphaMask?: Uint8Array;
   width: number;
   height: number;
 }
 
+// 按调色板重新分配像素得到的高度图和预览图
+export type PaletteAssignment = Pick<ProcessedData, 'heightMap' | 'processedImage'>;
+
+export interface MeshBuffers {
+  positions: Float32Array;
+  indices: Uint32Array;
+  uvs: Float32Array;
+  width: number;
+  height: number;
+  depth: number;
+}
+
 export interface GeometryData {
   geometry: BufferGeometry;
+  colorMap: DataTexture;
   width: number;
   height: number;
   depth: number;
-}
\ No newline at end of file
+}
+export interface ColorSwap {
+  layerNumber: number;
+  z: number;
+  startHeight: number;
+  fromHex: string;
+  toHex: string;
+}
+
+export interface SwapPlan {
+  firstLayerHeight: number;
+  layerHeight: number;
+  startHex: string;
+  totalLayers: number;
+  swaps: ColorSwap[];
+  warnings: string[];
+}
+
+// 可保存、恢复的完整会话状态
+export interface ProjectSnapshot {
+  imageSrc: string | null;
+  // 亮度浮雕使用的深度图，为空时使用原图亮度
+  depthSrc: string | null;
+  settings: Settings;
+  processedData: ProcessedData | null;
+  layers: Layer[] | null;
+  userOrderedLayers: Layer[] | null;
+}
+
+// 网格检查结果，边按无向边计数
+export interface MeshValidationReport {
+  triangleCount: number;
+  openEdges: number;
+  nonManifoldEdges: number;
+  inconsistentEdges: number;
+  degenerateTriangles: number;
+  signedVolume: number;
+  isValid: boolean;
+}
+
+// Web Worker 消息协议
+export type ReliefWorkerRequest =
+  | { type: 'process'; id: number; imageData: RasterImage; depthImage?: RasterImage; settings: Settings; filaments: Filament[] }
+  | { type: 'remap'; id: number; imageData: RasterImage; layers: Layer[]; settings: Settings }
+  | { type: 'mesh'; id: number; heightMap: Uint8Array; depthMap?: Float32Array; outlineMask?: Uint8Array; width: number; height: number; layers: Layer[]; settings: MeshSettings }
+  | { type: '3mf'; id: number; processedData: ProcessedData; layers: Layer[]; settings: Settings };
+
+export type ReliefWorkerResponse =
+  | { type: 'progress'; id: number; message: string }
+  | { type: 'processed'; id: number; result: ProcessedData }
+  | { type: 'remapped'; id: number; result: PaletteAssignment }
+  | { type: 'mesh'; id: number; result: MeshBuffers }
+  | { type: '3mf'; id: number; result: Blob }
+  | { type: 'error'; id: number; message: string };
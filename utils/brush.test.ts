@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { HeightMapTarget, floodFill, stampBrush, strokeBrush } from './brush';
+
+const target = (width: number, height: number, fill = 0): HeightMapTarget => ({
+  heightMap: new Uint8Array(width * height).fill(fill),
+  width,
+  height,
+});
+
+const count = (map: Uint8Array, value: number) => map.filter(v => v === value).length;
+
+describe('stampBrush', () => {
+  it('paints a single pixel at size 1 and a round dot at larger sizes', () => {
+    const small = target(5, 5);
+    expect(stampBrush(small, 2, 2, 1, 3)).toBe(true);
+    expect(count(small.heightMap, 3)).toBe(1);
+
+    const large = target(9, 9);
+    stampBrush(large, 4, 4, 5, 3);
+    expect(count(large.heightMap, 3)).toBe(21);
+    expect(large.heightMap[0]).toBe(0);
+  });
+
+  it('clips at the edges and reports when nothing changed', () => {
+    const map = target(4, 4);
+    stampBrush(map, 0, 0, 3, 1);
+    expect(count(map.heightMap, 1)).toBe(4);
+    expect(stampBrush(map, 0, 0, 3, 1)).toBe(false);
+  });
+});
+
+describe('strokeBrush', () => {
+  it('leaves no gaps between distant points', () => {
+    const map = target(10, 3);
+    strokeBrush(map, [0, 1], [9, 1], 1, 2);
+    expect(Array.from(map.heightMap.subarray(10, 20))).toEqual(new Array(10).fill(2));
+    expect(count(map.heightMap, 2)).toBe(10);
+  });
+});
+
+describe('floodFill', () => {
+  it('fills only the four-connected region of the same layer', () => {
+    // 左右两块 0 被一列 1 隔开，只在对角处接触
+    const map: HeightMapTarget = {
+      heightMap: new Uint8Array([
+        0, 0, 1, 0,
+        0, 1, 0, 0,
+        1, 0, 0, 0,
+      ]),
+      width: 4,
+      height: 3,
+    };
+    expect(floodFill(map, 0, 0, 5)).toBe(3);
+    expect(Array.from(map.heightMap)).toEqual([
+      5, 5, 1, 0,
+      5, 1, 0, 0,
+      1, 0, 0, 0,
+    ]);
+  });
+
+  it('ignores fills with the same layer or outside the map', () => {
+    const map = target(3, 3, 2);
+    expect(floodFill(map, 1, 1, 2)).toBe(0);
+    expect(floodFill(map, 3, 0, 1)).toBe(0);
+    expect(floodFill(map, 1, 1, 4)).toBe(9);
+  });
+});
@@ -0,0 +1,81 @@
+// 在高度图上手动修改像素所属的图层：画笔、沿拖动轨迹连续绘制和油漆桶填充。
+// 所有函数都直接修改传入的高度图，调用方负责在笔画开始前复制一份
+
+export interface HeightMapTarget {
+  heightMap: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// 以 (cx, cy) 为中心画一个直径为 size 像素的圆点，返回是否有像素被修改
+export const stampBrush = (target: HeightMapTarget, cx: number, cy: number, size: number, value: number): boolean => {
+  const { heightMap, width, height } = target;
+  const radius = Math.max(1, size) / 2;
+  const reach = Math.floor(radius);
+  let changed = false;
+  for (let y = Math.max(0, cy - reach); y <= Math.min(height - 1, cy + reach); y++) {
+    for (let x = Math.max(0, cx - reach); x <= Math.min(width - 1, cx + reach); x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      if (dx * dx + dy * dy > radius * radius) continue;
+      const i = y * width + x;
+      if (heightMap[i] !== value) {
+        heightMap[i] = value;
+        changed = true;
+      }
+    }
+  }
+  return changed;
+};
+
+// 沿两点之间的直线逐像素盖章，快速拖动时笔画也不会断开
+export const strokeBrush = (
+  target: HeightMapTarget,
+  from: [number, number],
+  to: [number, number],
+  size: number,
+  value: number
+): boolean => {
+  const steps = Math.max(Math.abs(to[0] - from[0]), Math.abs(to[1] - from[1]));
+  let changed = false;
+  for (let step = 0; step <= steps; step++) {
+    const t = steps === 0 ? 0 : step / steps;
+    const x = Math.round(from[0] + (to[0] - from[0]) * t);
+    const y = Math.round(from[1] + (to[1] - from[1]) * t);
+    changed = stampBrush(target, x, y, size, value) || changed;
+  }
+  return changed;
+};
+
+// 把与 (x, y) 四连通且属于同一图层的区域改为 value，返回修改的像素数
+export const floodFill = (target: HeightMapTarget, x: number, y: number, value: number): number => {
+  const { heightMap, width, height } = target;
+  if (x < 0 || y < 0 || x >= width || y >= height) return 0;
+  const start = y * width + x;
+  const original = heightMap[start];
+  if (original === value) return 0;
+
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  let count = 0;
+  stack[top++] = start;
+  heightMap[start] = value;
+  while (top > 0) {
+    const i = stack[--top];
+    count++;
+    const px = i % width;
+    const neighbors = [
+      px > 0 ? i - 1 : -1,
+      px < width - 1 ? i + 1 : -1,
+      i >= width ? i - width : -1,
+      i + width < heightMap.length ? i + width : -1,
+    ];
+    for (const n of neighbors) {
+      if (n >= 0 && heightMap[n] === original) {
+        heightMap[n] = value;
+        stack[top++] = n;
+      }
+    }
+  }
+  return count;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { colorDistance, deltaE2000, hexToRgb, rgbToHex, rgbToLab } from './color';
+
+describe('colorDistance', () => {
+  it('is the Euclidean distance in RGB', () => {
+    expect(colorDistance([0, 0, 0], [0, 0, 0])).toBe(0);
+    expect(colorDistance([0, 0, 0], [3, 4, 0])).toBe(5);
+    expect(colorDistance([0, 0, 0], [255, 255, 255])).toBeCloseTo(441.673, 3);
+  });
+
+  it('is symmetric', () => {
+    expect(colorDistance([10, 200, 30], [90, 5, 250])).toBe(colorDistance([90, 5, 250], [10, 200, 30]));
+  });
+});
+
+describe('rgbToHex', () => {
+  it('formats upper-case hex with zero padding', () => {
+    expect(rgbToHex(0, 0, 0)).toBe('#000000');
+    expect(rgbToHex(255, 255, 255)).toBe('#FFFFFF');
+    expect(rgbToHex(1, 2, 3)).toBe('#010203');
+    expect(rgbToHex(193, 46, 31)).toBe('#C12E1F');
+  });
+
+  it('round-trips through hexToRgb', () => {
+    expect(hexToRgb(rgbToHex(12, 34, 56))).toEqual([12, 34, 56]);
+    expect(hexToRgb('#c12e1f')).toEqual([193, 46, 31]);
+  });
+});
+
+describe('deltaE2000', () => {
+  // Sharma, Wu, Dalal (2005) 测试数据中的几组
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+  ])('%j vs %j = %f', (a, b, expected) => {
+    expect(deltaE2000(a as [number, number, number], b as [number, number, number])).toBeCloseTo(expected, 4);
+  });
+
+  it('is zero for identical colors', () => {
+    const lab = rgbToLab([120, 30, 200]);
+    expect(deltaE2000(lab, lab)).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { RGBColor, ColorSpace } from '../types';
+
+// Color distance calculation
+export const colorDistance = (c1: RGBColor, c2: RGBColor): number => {
+  return Math.sqrt(Math.pow(c1[0] - c2[0], 2) + Math.pow(c1[1] - c2[1], 2) + Math.pow(c1[2] - c2[2], 2));
+};
+
+export const rgbToHex = (r: number, g: number, b: number): string => {
+  return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase();
+};
+
+export const hexToRgb = (hexColor: string): RGBColor => {
+  const hex = hexColor.replace('#', '');
+  return [
+    parseInt(hex.substring(0, 2), 16),
+    parseInt(hex.substring(2, 4), 16),
+    parseInt(hex.substring(4, 6), 16),
+  ];
+};
+
+// sRGB 与线性光之间的转换，颜色混合需要在线性空间中进行
+export const srgbToLinear = (value: number): number => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+export const linearToSrgb = (value: number): number => {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(255, Math.round(c * 255)));
+};
+
+// 颜色在所选颜色空间中的坐标
+export type ColorVector = [number, number, number];
+
+const D65_X = 0.95047;
+const D65_Z = 1.08883;
+
+const linearToXyz = (r: number, g: number, b: number): ColorVector => [
+  0.4124564 * r + 0.3575761 * g + 0.1804375 * b,
+  0.2126729 * r + 0.7151522 * g + 0.0721750 * b,
+  0.0193339 * r + 0.1191920 * g + 0.9503041 * b,
+];
+
+// sRGB → CIELAB（D65 白点）
+export const rgbToLab = (color: RGBColor): ColorVector => {
+  const [x, y, z] = linearToXyz(srgbToLinear(color[0]), srgbToLinear(color[1]), srgbToLinear(color[2]));
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x / D65_X);
+  const fy = f(y);
+  const fz = f(z / D65_Z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const labToRgb = (lab: ColorVector): RGBColor => {
+  const fy = (lab[0] + 16) / 116;
+  const fx = fy + lab[1] / 500;
+  const fz = fy - lab[2] / 200;
+  const finv = (t: number) => t > 6 / 29 ? t * t * t : (116 * t - 16) * 27 / 24389;
+  const x = finv(fx) * D65_X;
+  const y = finv(fy);
+  const z = finv(fz) * D65_Z;
+  return [
+    linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    linearToSrgb(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+};
+
+export const rgbToOklab = (color: RGBColor): ColorVector => {
+  const r = srgbToLinear(color[0]);
+  const g = srgbToLinear(color[1]);
+  const b = srgbToLinear(color[2]);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+};
+
+export const oklabToRgb = (lab: ColorVector): RGBColor => {
+  const l = (lab[0] + 0.3963377774 * lab[1] + 0.2158037573 * lab[2]) ** 3;
+  const m = (lab[0] - 0.1055613458 * lab[1] - 0.0638541728 * lab[2]) ** 3;
+  const s = (lab[0] - 0.0894841775 * lab[1] - 1.2914855480 * lab[2]) ** 3;
+  return [
+    linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+  ];
+};
+
+// CIEDE2000 色差
+export const deltaE2000 = (lab1: ColorVector, lab2: ColorVector): number => {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const Cbar7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 25 ** 7)));
+  const a1p = a1 * (1 + G);
+  const a2p = a2 * (1 + G);
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const h1p = C1p === 0 ? 0 : (Math.atan2(b1, a1p) / rad + 360) % 360;
+  const h2p = C2p === 0 ? 0 : (Math.atan2(b2, a2p) / rad + 360) % 360;
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) > 180) {
+      hbarp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    } else {
+      hbarp = (h1p + h2p) / 2;
+    }
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * rad)
+    + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad)
+    - 0.20 * Math.cos((4 * hbarp - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hbarp - 275) / 25) ** 2));
+  const Cbarp7 = Cbarp ** 7;
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + 25 ** 7));
+  const Sl = 1 + (0.015 * (Lbarp - 50) ** 2) / Math.sqrt(20 + (Lbarp - 50) ** 2);
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    (dLp / Sl) ** 2 + (dCp / Sc) ** 2 + (dHp / Sh) ** 2 + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+};
+
+export const toColorSpace = (color: RGBColor, space: ColorSpace): ColorVector => {
+  if (space === 'lab') return rgbToLab(color);
+  if (space === 'oklab') return rgbToOklab(color);
+  return [color[0], color[1], color[2]];
+};
+
+export const fromColorSpace = (vector: ColorVector, space: ColorSpace): RGBColor => {
+  if (space === 'lab') return labToRgb(vector);
+  if (space === 'oklab') return oklabToRgb(vector);
+  return [
+    Math.max(0, Math.min(255, Math.round(vector[0]))),
+    Math.max(0, Math.min(255, Math.round(vector[1]))),
+    Math.max(0, Math.min(255, Math.round(vector[2]))),
+  ];
+};
+
+// RGB 与 OKLab 使用欧氏距离，CIELAB 使用 ΔE2000
+export const colorSpaceDistance = (a: ColorVector, b: ColorVector, space: ColorSpace): number => {
+  if (space === 'lab') return deltaE2000(a, b);
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+};
+
+// 各颜色空间的取值范围，用于抖动误差扩散时限制坐标
+const COLOR_SPACE_RANGES: Record<ColorSpace, [ColorVector, ColorVector]> = {
+  rgb: [[0, 0, 0], [255, 255, 255]],
+  lab: [[0, -128, -128], [100, 127, 127]],
+  oklab: [[0, -0.4, -0.4], [1, 0.4, 0.4]],
+};
+
+export const clampColorComponent = (value: number, channel: number, space: ColorSpace): number => {
+  const [min, max] = COLOR_SPACE_RANGES[space];
+  return Math.max(min[channel], Math.min(max[channel], value));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Layer } from '../types';
+import { assignHeightBands, computeDepthMap, resolveLayerIds } from './depth';
+import { createRaster } from './raster';
+
+const LAYERS: Layer[] = [
+  { id: 2, color: [0, 0, 0], hex: '#000000', height: 0.4 },
+  { id: 0, color: [128, 128, 128], hex: '#808080', height: 0.6 },
+  { id: 1, color: [255, 255, 255], hex: '#FFFFFF', height: 1 },
+];
+
+const grayRow = (values: number[]) => {
+  const image = createRaster(values.length, 1);
+  values.forEach((v, i) => image.data.set([v, v, v, 255], i * 4));
+  return image;
+};
+
+describe('computeDepthMap', () => {
+  it('stretches luminance to the full 0-1 range', () => {
+    expect(Array.from(computeDepthMap(grayRow([50, 100, 150]), false))).toEqual([0, 0.5, 1]);
+  });
+
+  it('makes darker pixels higher when inverted', () => {
+    expect(Array.from(computeDepthMap(grayRow([50, 100, 150]), true))).toEqual([1, 0.5, 0]);
+  });
+
+  it('treats a uniform image as full height', () => {
+    expect(Array.from(computeDepthMap(grayRow([80, 80]), false))).toEqual([1, 1]);
+  });
+});
+
+describe('assignHeightBands', () => {
+  it('gives each pixel the first layer in print order that reaches its height', () => {
+    const depthMap = Float32Array.from([0, 0.4, 0.41, 0.6, 0.61, 1]);
+    expect(Array.from(assignHeightBands(depthMap, LAYERS))).toEqual([2, 2, 0, 0, 1, 1]);
+  });
+
+  it('moves the color bands when layer heights change', () => {
+    const depthMap = Float32Array.from([0.5]);
+    const raised = LAYERS.map(l => (l.id === 2 ? { ...l, height: 0.5 } : l));
+    expect(Array.from(assignHeightBands(depthMap, LAYERS))).toEqual([0]);
+    expect(Array.from(assignHeightBands(depthMap, raised))).toEqual([2]);
+  });
+
+  it('keeps the quantized layers when there is no depth map', () => {
+    const heightMap = Uint8Array.from([1, 0]);
+    const processed = { layers: LAYERS, processedImage: createRaster(2, 1), heightMap, width: 2, height: 1 };
+    expect(resolveLayerIds(processed, LAYERS)).toBe(heightMap);
+  });
+});
@@ -0,0 +1,57 @@
+import { Layer, ProcessedData, RasterImage } from '../types';
+import { isTransparentPixel } from './raster';
+
+// 亮度浮雕（HueForge / 透光灯片风格）：像素高度随亮度连续变化，
+// 图层表中的累积高度把高度范围切成若干区间，每个区间显示对应图层的颜色
+
+/**
+ * 按亮度计算每个像素的相对高度（0-1）。亮度先拉伸到图片实际的最暗到最亮范围，
+ * 让整个高度范围都被用上；invert 为 true 时越暗越高。透明像素（去除的背景）高度为 0。
+ */
+export const computeDepthMap = (image: RasterImage, invert: boolean): Float32Array => {
+  const { data } = image;
+  const depthMap = new Float32Array(image.width * image.height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < depthMap.length; i++) {
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    depthMap[i] = luminance;
+    if (isTransparentPixel(image, i)) continue;
+    min = Math.min(min, luminance);
+    max = Math.max(max, luminance);
+  }
+  const range = max - min;
+  for (let i = 0; i < depthMap.length; i++) {
+    if (isTransparentPixel(image, i)) {
+      depthMap[i] = 0;
+      continue;
+    }
+    const t = range > 0 ? (depthMap[i] - min) / range : 1;
+    depthMap[i] = invert ? 1 - t : t;
+  }
+  return depthMap;
+};
+
+// 图层表的最高高度（底板之上），相对高度 1 对应这个高度
+export const reliefTopHeight = (layers: Layer[]): number => Math.max(0, ...layers.map(l => l.height));
+
+/**
+ * 按打印顺序找到第一个累积高度不低于像素高度的图层，写入它的 ID。
+ * 图层顺序或高度改变后需要重新计算。
+ */
+export const assignHeightBands = (depthMap: Float32Array, layers: Layer[]): Uint8Array => {
+  const heightMap = new Uint8Array(depthMap.length);
+  if (layers.length === 0) return heightMap;
+  const top = reliefTopHeight(layers);
+  const fallback = layers[layers.length - 1].id;
+  for (let i = 0; i < depthMap.length; i++) {
+    const z = depthMap[i] * top;
+    const layer = layers.find(l => l.height >= z - 1e-6);
+    heightMap[i] = layer ? layer.id : fallback;
+  }
+  return heightMap;
+};
+
+// 当前图层表下每个像素露出的图层 ID：亮度浮雕按高度区间重新计算，否则就是量化结果
+export const resolveLayerIds = (processedData: ProcessedData, layers: Layer[]): Uint8Array =>
+  processedData.depthMap ? assignHeightBands(processedData.depthMap, layers) : processedData.heightMap;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFUSION_KERNELS, isErrorDiffusion, orderedThreshold } from './dither';
+
+describe('DIFFUSION_KERNELS', () => {
+  it.each(Object.entries(DIFFUSION_KERNELS))('%s only pushes error forward', (_, { taps }) => {
+    taps.forEach(([dx, dy]) => expect(dy > 0 || (dy === 0 && dx > 0)).toBe(true));
+  });
+
+  it('distributes all of the error except for Atkinson', () => {
+    Object.entries(DIFFUSION_KERNELS).forEach(([method, { divisor, taps }]) => {
+      const total = taps.reduce((sum, [, , weight]) => sum + weight, 0) / divisor;
+      expect(total).toBe(method === 'atkinson' ? 0.75 : 1);
+    });
+  });
+
+  it('tells error diffusion from ordered methods', () => {
+    expect(isErrorDiffusion('stucki')).toBe(true);
+    expect(isErrorDiffusion('bayer')).toBe(false);
+    expect(isErrorDiffusion('blue-noise')).toBe(false);
+  });
+});
+
+describe('orderedThreshold', () => {
+  const tile = (method: 'bayer' | 'blue-noise', size: number): number[] => {
+    const values: number[] = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) values.push(orderedThreshold(method, x, y));
+    }
+    return values;
+  };
+
+  it.each([['bayer', 8], ['blue-noise', 64]] as const)('%s uses every threshold level once per tile', (method, size) => {
+    const values = tile(method, size);
+    const levels = values.map(v => Math.round(v * size * size - 0.5)).sort((a, b) => a - b);
+    expect(levels).toEqual(Array.from({ length: size * size }, (_, i) => i));
+  });
+
+  it('repeats with the tile size', () => {
+    expect(orderedThreshold('bayer', 3, 5)).toBe(orderedThreshold('bayer', 11, 13));
+    expect(orderedThreshold('blue-noise', 5, 9)).toBe(orderedThreshold('blue-noise', 69, 73));
+  });
+
+  it('builds the standard 8 × 8 Bayer matrix', () => {
+    const firstRow = Array.from({ length: 8 }, (_, x) => orderedThreshold('bayer', x, 0) * 64 - 0.5);
+    expect(firstRow).toEqual([0, 32, 8, 40, 2, 34, 10, 42]);
+  });
+});
@@ -0,0 +1,173 @@
+import { DitherMethod } from '../types';
+import { createRandom } from './random';
+
+// 抖动算法：误差扩散核，以及有序抖动使用的 Bayer 矩阵和蓝噪声阈值图
+
+export type ErrorDiffusionMethod = Exclude<DitherMethod, 'bayer' | 'blue-noise'>;
+
+// [dx, dy, 权重]，dx 为相对当前扫描方向的偏移
+export interface DiffusionKernel {
+  divisor: number;
+  taps: [number, number, number][];
+}
+
+export const DIFFUSION_KERNELS: Record<ErrorDiffusionMethod, DiffusionKernel> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  // Atkinson 只扩散 3/4 的误差，大块色区更干净，适合较粗的线宽
+  atkinson: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  'jarvis-judice-ninke': {
+    divisor: 48,
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    taps: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+  sierra: {
+    divisor: 32,
+    taps: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+};
+
+export const isErrorDiffusion = (method: DitherMethod): method is ErrorDiffusionMethod =>
+  method in DIFFUSION_KERNELS;
+
+// 阈值图：size × size，取值在 [0, 1) 内均匀分布
+interface ThresholdMap {
+  size: number;
+  values: Float32Array;
+}
+
+const BAYER_SIZE = 8;
+
+// 递归构造 Bayer 矩阵：M(2n) = [[4M, 4M + 2], [4M + 3, 4M + 1]]
+const createBayerMap = (): ThresholdMap => {
+  let matrix = [[0]];
+  while (matrix.length < BAYER_SIZE) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array(n * 2).fill(0));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    matrix = next;
+  }
+  const cells = BAYER_SIZE * BAYER_SIZE;
+  return { size: BAYER_SIZE, values: Float32Array.from(matrix.flat(), v => (v + 0.5) / cells) };
+};
+
+const BLUE_NOISE_SIZE = 64;
+const BLUE_NOISE_SIGMA = 1.5;
+const BLUE_NOISE_SEED = 7;
+
+/**
+ * Void-and-cluster 生成可平铺的蓝噪声阈值图（Ulichney 1993）。
+ * 能量为周期边界下各个点的高斯核之和：反复把最密集处的点移到最大空隙得到均匀的初始图案，
+ * 再依次移除最密集的点、向最大空隙加点，按顺序得到每个像素的排名。
+ */
+const createBlueNoiseMap = (): ThresholdMap => {
+  const size = BLUE_NOISE_SIZE;
+  const cells = size * size;
+  const kernel = new Float32Array(cells);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * BLUE_NOISE_SIGMA * BLUE_NOISE_SIGMA));
+    }
+  }
+
+  const pattern = new Uint8Array(cells);
+  const energy = new Float32Array(cells);
+  const toggle = (p: number, on: boolean) => {
+    pattern[p] = on ? 1 : 0;
+    const px = p % size;
+    const py = Math.floor(p / size);
+    const sign = on ? 1 : -1;
+    for (let y = 0; y < size; y++) {
+      const row = ((y - py + size) % size) * size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[row + (x - px + size) % size];
+      }
+    }
+  };
+  // 最密集的点（value = 1 时能量最大）或最大空隙（value = 0 时能量最小）
+  const extreme = (value: number): number => {
+    let best = -1;
+    for (let p = 0; p < cells; p++) {
+      if (pattern[p] !== value) continue;
+      if (best < 0 || (value ? energy[p] > energy[best] : energy[p] < energy[best])) best = p;
+    }
+    return best;
+  };
+
+  const random = createRandom(BLUE_NOISE_SEED);
+  const initialCount = Math.floor(cells / 10);
+  for (let placed = 0; placed < initialCount;) {
+    const p = Math.floor(random() * cells);
+    if (!pattern[p]) {
+      toggle(p, true);
+      placed++;
+    }
+  }
+  for (;;) {
+    const cluster = extreme(1);
+    toggle(cluster, false);
+    const voidIndex = extreme(0);
+    toggle(voidIndex, true);
+    if (voidIndex === cluster) break;
+  }
+
+  const ranks = new Float32Array(cells);
+  const initial = pattern.slice();
+  const initialEnergy = energy.slice();
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = extreme(1);
+    toggle(cluster, false);
+    ranks[cluster] = rank;
+  }
+  pattern.set(initial);
+  energy.set(initialEnergy);
+  for (let rank = initialCount; rank < cells; rank++) {
+    const voidIndex = extreme(0);
+    toggle(voidIndex, true);
+    ranks[voidIndex] = rank;
+  }
+
+  return { size, values: ranks.map(rank => (rank + 0.5) / cells) };
+};
+
+const thresholdMaps = new Map<DitherMethod, ThresholdMap>();
+
+// 返回有序抖动在 (x, y) 处的阈值；阈值图在首次使用时生成并缓存
+export const orderedThreshold = (method: 'bayer' | 'blue-noise', x: number, y: number): number => {
+  let map = thresholdMaps.get(method);
+  if (!map) {
+    map = method === 'bayer' ? createBayerMap() : createBlueNoiseMap();
+    thresholdMaps.set(method, map);
+  }
+  return map.values[(y % map.size) * map.size + (x % map.size)];
+};
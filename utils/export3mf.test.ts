@@ -0,0 +1,196 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ProcessedData, Settings } from '../types';
+import { generate3MF } from './export3mf';
+import { validateMesh } from './meshValidation';
+import { renderPaletteImage } from './raster';
+import { DEFAULT_FRAME, DEFAULT_LABEL, DEFAULT_SETTINGS } from './settings';
+import { LAYERS } from './testUtils';
+import { createZip } from './zip';
+
+// 按中央目录读取 ZIP，同时检查本地文件头与中央目录一致、CRC 与解压后的内容一致
+const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054B50);
+  const count = view.getUint16(endOffset + 10, true);
+  const centralSize = view.getUint32(endOffset + 12, true);
+  const centralOffset = view.getUint32(endOffset + 16, true);
+  expect(view.getUint16(endOffset + 8, true)).toBe(count);
+  expect(centralOffset + centralSize).toBe(endOffset);
+
+  const files = new Map<string, Uint8Array>();
+  let p = centralOffset;
+  for (let n = 0; n < count; n++) {
+    expect(view.getUint32(p, true)).toBe(0x02014B50);
+    const method = view.getUint16(p + 10, true);
+    const crc = view.getUint32(p + 16, true);
+    const compressedSize = view.getUint32(p + 20, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const localOffset = view.getUint32(p + 42, true);
+    const name = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034B50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(method);
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 18, true)).toBe(compressedSize);
+    expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(name);
+    const start = localOffset + 30 + nameLength + view.getUint16(localOffset + 28, true);
+    const payload = bytes.subarray(start, start + compressedSize);
+    const data = method === 8 ? new Uint8Array(inflateRawSync(payload)) : payload;
+    expect(data.length, name).toBe(size);
+    expect(crc32(data), name).toBe(crc);
+    files.set(name, data);
+    p += 46 + nameLength;
+  }
+  expect(p).toBe(endOffset);
+  return files;
+};
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xEDB88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+describe('createZip', () => {
+  it('writes entries that the central directory, CRC and sizes agree on', async () => {
+    const encoder = new TextEncoder();
+    const entries = [
+      { name: 'check.txt', data: encoder.encode('123456789') },
+      { name: 'dir/repeat.txt', data: encoder.encode('relief '.repeat(200)) },
+      { name: '文字.txt', data: new Uint8Array(0) },
+    ];
+    const blob = await createZip(entries, 'application/zip');
+    expect(blob.type).toBe('application/zip');
+    const files = await readZip(blob);
+    expect(Array.from(files.keys())).toEqual(entries.map(e => e.name));
+    entries.forEach(entry => expect(files.get(entry.name)).toEqual(entry.data));
+    // CRC-32 的标准校验值
+    expect(crc32(entries[0].data)).toBe(0xCBF43926);
+  });
+
+  it('joins entries passed in chunks', async () => {
+    const encoder = new TextEncoder();
+    const chunks = ['<a>', 'relief '.repeat(100), '</a>'].map(text => encoder.encode(text));
+    const files = await readZip(await createZip([{ name: 'chunked.xml', data: chunks }], 'application/zip'));
+    expect(new TextDecoder().decode(files.get('chunked.xml'))).toBe(`<a>${'relief '.repeat(100)}</a>`);
+  });
+});
+
+interface ModelObject {
+  name: string;
+  pindex: string | null;
+  positions: number[];
+  indices: number[];
+}
+
+const parseObjects = (xml: string): ModelObject[] =>
+  Array.from(xml.matchAll(/<object id="\d+" type="model" name="([^"]*)"(?: pid="1" pindex="(\d+)")?>([\s\S]*?)<\/object>/g), match => ({
+    name: match[1],
+    pindex: match[2] ?? null,
+    positions: Array.from(match[3].matchAll(/<vertex x="([^"]+)" y="([^"]+)" z="([^"]+)"\/>/g), v => [Number(v[1]), Number(v[2]), Number(v[3])]).flat(),
+    indices: Array.from(match[3].matchAll(/<triangle v1="(\d+)" v2="(\d+)" v3="(\d+)"\/>/g), t => [Number(t[1]), Number(t[2]), Number(t[3])]).flat(),
+  }));
+
+describe('generate3MF', () => {
+  // 4 × 3 像素，三个图层都露出顶面
+  const width = 4;
+  const height = 3;
+  const heightMap = Uint8Array.from([0, 1, 2, 2, 0, 1, 1, 2, 0, 0, 1, 2]);
+  const processed: ProcessedData = {
+    layers: LAYERS,
+    processedImage: renderPaletteImage(heightMap, LAYERS, width, height),
+    heightMap,
+    width,
+    height,
+  };
+  const settings = { ...DEFAULT_SETTINGS, modelWidth: 8 };
+
+  it('packages the model with its content types and relationships', async () => {
+    const files = await readZip(await generate3MF(processed, LAYERS, settings));
+    expect(Array.from(files.keys())).toEqual(['[Content_Types].xml', '_rels/.rels', '3D/3dmodel.model']);
+    const xml = new TextDecoder().decode(files.get('3D/3dmodel.model'));
+    expect(xml).toContain('displaycolor="#FF0000FF"');
+    expect(xml).toContain('<build><item objectid="5"/></build>');
+  });
+
+  it('writes one closed, stacked body per layer', async () => {
+    const files = await readZip(await generate3MF(processed, LAYERS, settings));
+    const objects = parseObjects(new TextDecoder().decode(files.get('3D/3dmodel.model')));
+    const parts = objects.filter(o => o.pindex !== null);
+    expect(parts.map(o => o.name)).toEqual(['Layer 1 #000000', 'Layer 2 #FFFFFF', 'Layer 3 #FF0000']);
+
+    const pixelArea = 4;
+    const base = settings.baseThickness;
+    // 图层 i 覆盖顶部颜色在第 i 层或更上层的像素，厚度为相邻两层的高度差
+    const slabs = [[12, 0, base + 0.64], [8, base + 0.64, base + 0.8], [4, base + 0.8, base + 0.96]];
+    parts.forEach((part, i) => {
+      const report = validateMesh(part.positions, part.indices);
+      expect(report.isValid, part.name).toBe(true);
+      const [pixels, zLo, zHi] = slabs[i];
+      expect(report.signedVolume).toBeCloseTo(pixels * pixelArea * (zHi - zLo), 3);
+      const zs = part.positions.filter((_, k) => k % 3 === 2);
+      expect(Math.min(...zs)).toBeCloseTo(zLo, 4);
+      expect(Math.max(...zs)).toBeCloseTo(zHi, 4);
+    });
+  });
+
+  it('merges each layer into rectangles', async () => {
+    const flat: ProcessedData = { ...processed, heightMap: new Uint8Array(width * height).fill(2) };
+    const files = await readZip(await generate3MF(flat, LAYERS, settings));
+    const parts = parseObjects(new TextDecoder().decode(files.get('3D/3dmodel.model'))).filter(o => o.pindex !== null);
+    // 每个图层都是一整块长方体，三角形数只与周长有关：顶面、底面从中心向外缘每个像素边各扇出 1 个，
+    // 四周侧壁每个像素边 2 个
+    parts.forEach(part => expect(part.indices.length / 3, part.name).toBe(8 * (width + height)));
+  });
+});
+
+describe('generate3MF (noisy image)', () => {
+  // 伪随机的图层分布，包含大量只以对角相接的像素
+  const width = 24;
+  const height = 18;
+  let seed = 3;
+  const heightMap = Uint8Array.from({ length: width * height }, () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed % 3;
+  });
+  const processed: ProcessedData = {
+    layers: LAYERS,
+    processedImage: renderPaletteImage(heightMap, LAYERS, width, height),
+    heightMap,
+    width,
+    height,
+  };
+
+  const bodies = async (settings: Settings) => {
+    const files = await readZip(await generate3MF(processed, LAYERS, settings));
+    return parseObjects(new TextDecoder().decode(files.get('3D/3dmodel.model'))).filter(o => o.pindex !== null);
+  };
+
+  it('writes a closed, manifold body for every layer and outline', async () => {
+    for (const outline of ['rectangle', 'circle', 'hexagon'] as const) {
+      const parts = await bodies({ ...DEFAULT_SETTINGS, modelWidth: 48, outline });
+      expect(parts).toHaveLength(3);
+      parts.forEach(part => expect(validateMesh(part.positions, part.indices).isValid, `${outline} ${part.name}`).toBe(true));
+    }
+  });
+
+  it('keeps frame, text and chamfered parts manifold', async () => {
+    const parts = await bodies({
+      ...DEFAULT_SETTINGS,
+      modelWidth: 48,
+      outline: 'circle',
+      frame: { ...DEFAULT_FRAME, width: 2, height: 0.6, layer: 1, chamfer: 1.5, hanger: 'keyhole', hangerDiameter: 5 },
+      labels: [{ ...DEFAULT_LABEL, text: 'HI', font: 'pixel', size: 14, y: 0.5, layer: 2 }],
+    });
+    expect(parts.map(o => o.name)).toEqual(expect.arrayContaining(['Frame #FFFFFF', 'Text HI #FF0000']));
+    parts.forEach(part => expect(validateMesh(part.positions, part.indices).isValid, part.name).toBe(true));
+  });
+});
@@ -0,0 +1,203 @@
+import { Layer, ProcessedData, Settings } from '../types';
+import { createZip } from './zip';
+import { withBaseThickness } from './layers';
+import { resolveLayerIds } from './depth';
+import { buildLayerSlab, MeshArrays } from './mesh';
+import { closeDiagonalGaps, resolveOutlineMask } from './outline';
+import { frameLayerIndex, resolveFrameLayout } from './frame';
+import { labelLayerIndex, labelTopIndex, resolveLabelMasks } from './text';
+
+// 3MF 导出：每个颜色图层单独成为一个部件，并以 basematerials 写入图层颜色，
+// 方便 Bambu Studio / PrusaSlicer / OrcaSlicer 导入后直接为每个部件分配耗材
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+ <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+ <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+ <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+const formatNumber = (n: number): string => parseFloat(n.toFixed(4)).toString();
+
+// 模型 XML 逐段编码为字节块，大图也不会拼出一个超过字符串长度上限的 XML
+const XML_CHUNK_SIZE = 1 << 16;
+
+interface XmlWriter {
+  push: (line: string) => void;
+  finish: () => Uint8Array[];
+}
+
+const createXmlWriter = (): XmlWriter => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let lines: string[] = [];
+  let length = 0;
+  const flush = () => {
+    if (lines.length === 0) return;
+    chunks.push(encoder.encode(lines.join('')));
+    lines = [];
+    length = 0;
+  };
+  return {
+    push: (line: string) => {
+      lines.push(line, '\n');
+      length += line.length + 1;
+      if (length >= XML_CHUNK_SIZE) flush();
+    },
+    finish: () => {
+      flush();
+      return chunks;
+    },
+  };
+};
+
+const writeMeshXml = (out: XmlWriter, body: MeshArrays) => {
+  out.push('<mesh><vertices>');
+  const { positions, indices } = body;
+  for (let i = 0; i < positions.length; i += 3) {
+    out.push(`<vertex x="${formatNumber(positions[i])}" y="${formatNumber(positions[i + 1])}" z="${formatNumber(positions[i + 2])}"/>`);
+  }
+  out.push('</vertices><triangles>');
+  for (let i = 0; i < indices.length; i += 3) {
+    out.push(`<triangle v1="${indices[i]}" v2="${indices[i + 1]}" v3="${indices[i + 2]}"/>`);
+  }
+  out.push('</triangles></mesh>');
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * 生成多色 3MF 文件。每个图层按打印顺序被切成一段阶梯状实体：
+ * 图层 i 覆盖所有顶部颜色在第 i 层或更上层的像素，高度范围为上一层高度到本层高度。
+ * 底板并入第一个图层。边框和凸起文字高出所在图层的部分单独成为同色部件，倒角按图层取整为阶梯。
+ */
+export const generate3MF = async (processedData: ProcessedData, tableLayers: Layer[], settings: Settings): Promise<Blob> => {
+  const { width, height } = processedData;
+  // 亮度浮雕的连续高度在这里按图层区间取整为阶梯
+  const heightMap = resolveLayerIds(processedData, tableLayers);
+  const { mask: outline, frame, chamfer } = resolveFrameLayout(resolveOutlineMask(processedData, settings), width, height, settings);
+  const layers = withBaseThickness(tableLayers, settings.baseThickness);
+  const pixelSize = settings.modelWidth / width;
+  const frameIndex = frameLayerIndex(layers, settings.frame);
+
+  // 每个像素露出的图层，以及边框和凸起文字高出该图层顶面的高度
+  const idToCurrentIndex = new Map<number, number>();
+  layers.forEach((layer, index) => idToCurrentIndex.set(layer.id, index));
+  const topIndexMap = new Int32Array(heightMap.length);
+  const raise = new Float64Array(heightMap.length);
+  const raisedNames = new Map<string, string>();
+  const frameRaise = Math.max(0, settings.frame.height);
+  for (let i = 0; i < heightMap.length; i++) {
+    topIndexMap[i] = idToCurrentIndex.get(heightMap[i]) ?? 0;
+    if (frame?.[i]) {
+      topIndexMap[i] = frameIndex;
+      raise[i] = frameRaise;
+    }
+  }
+  if (frame && frameRaise > 0) raisedNames.set(`${frameIndex}:${frameRaise}`, 'Frame');
+  for (const { label, mask: labelMask } of resolveLabelMasks(width, height, settings)) {
+    const index = labelLayerIndex(layers, label);
+    const depth = label.mode === 'raised' ? Math.max(0, label.depth) : 0;
+    for (let i = 0; i < labelMask.length; i++) {
+      if (!labelMask[i]) continue;
+      topIndexMap[i] = labelTopIndex(label, index, topIndexMap[i]);
+      raise[i] = depth;
+    }
+    const key = `${index}:${depth}`;
+    if (depth > 0 && !raisedNames.has(key)) raisedNames.set(key, `Text ${label.text}`);
+  }
+
+  const out = createXmlWriter();
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push('<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">');
+  out.push('<metadata name="Application">MultiColor Relief</metadata>');
+  out.push('<resources>');
+  out.push('<basematerials id="1">');
+  layers.forEach((layer, index) => {
+    out.push(`<base name="${escapeXml(`Layer ${index + 1} ${layer.hex}`)}" displaycolor="${layer.hex}FF"/>`);
+  });
+  out.push('</basematerials>');
+
+  const componentIds: number[] = [];
+  let nextObjectId = 2;
+
+  // 倒角后的像素只保留顶面不高于倒角面的图层，首层（含底板）始终保留
+  const fitsUnderChamfer = (i: number, zTop: number, zHi: number): boolean =>
+    !chamfer || zHi <= Math.max(settings.firstLayerHeight, zTop - chamfer[i]) + 1e-6;
+
+  // 部件覆盖的像素；只以对角相接的像素会补上一个相邻像素，保证每个部件都是流形。
+  // support 为上面一层补过的掩码，并入后上层部件始终落在本层之上
+  const partMask = (includes: (i: number) => boolean, support: Uint8Array | null = null): Uint8Array | null => {
+    const mask = new Uint8Array(heightMap.length);
+    let hasPixels = false;
+    for (let i = 0; i < mask.length; i++) {
+      if ((support?.[i] || includes(i)) && (!outline || outline[i] === 1)) {
+        mask[i] = 1;
+        hasPixels = true;
+      }
+    }
+    return hasPixels ? closeDiagonalGaps(mask, width, height, outline) : null;
+  };
+
+  const addPart = (name: string, index: number, zLo: number, zHi: number, mask: Uint8Array) => {
+    const objectId = nextObjectId++;
+    out.push(`<object id="${objectId}" type="model" name="${escapeXml(name)}" pid="1" pindex="${index}">`);
+    writeMeshXml(out, buildLayerSlab(mask, width, height, pixelSize, zLo, zHi));
+    out.push('</object>');
+    componentIds.push(objectId);
+  };
+
+  // 手动输入的高度可能低于下面的图层，此时该图层被完全遮住
+  const layerTops: number[] = [];
+  layers.forEach((layer, index) => layerTops.push(Math.max(layerTops[index - 1] ?? 0, layer.height)));
+  const pixelTop = (i: number): number => layerTops[topIndexMap[i]] + raise[i];
+
+  // 从最上面的图层开始计算掩码，再按打印顺序输出
+  const layerMasks: (Uint8Array | null)[] = new Array(layers.length).fill(null);
+  let support: Uint8Array | null = null;
+  for (let index = layers.length - 1; index >= 0; index--) {
+    const zHi = layerTops[index];
+    if (zHi <= (layerTops[index - 1] ?? 0)) continue;
+    const mask = partMask(i => topIndexMap[i] >= index && (index === 0 || fitsUnderChamfer(i, pixelTop(i), zHi)), support);
+    layerMasks[index] = mask;
+    support = mask ?? support;
+  }
+  layers.forEach((layer, index) => {
+    const mask = layerMasks[index];
+    if (mask) addPart(`Layer ${index + 1} ${layer.hex}`, index, layerTops[index - 1] ?? 0, layerTops[index], mask);
+  });
+
+  raisedNames.forEach((name, key) => {
+    const [index, depth] = key.split(':').map(Number);
+    if (!layers[index]) return;
+    const zLo = layerTops[index];
+    const zHi = zLo + depth;
+    const mask = partMask(i => topIndexMap[i] === index && raise[i] === depth && fitsUnderChamfer(i, zHi, zHi));
+    if (mask) addPart(`${name} ${layers[index].hex}`, index, zLo, zHi, mask);
+  });
+
+  if (componentIds.length === 0) {
+    throw new Error("No printable layers");
+  }
+
+  // 组合成一个带多个部件的对象，切片软件导入后保持各部件的相对位置
+  const assemblyId = nextObjectId;
+  out.push(`<object id="${assemblyId}" type="model" name="MultiColor Relief"><components>`);
+  componentIds.forEach(id => out.push(`<component objectid="${id}"/>`));
+  out.push('</components></object>');
+  out.push('</resources>');
+  out.push(`<build><item objectid="${assemblyId}"/></build>`);
+  out.push('</model>');
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: encoder.encode(RELS) },
+    { name: '3D/3dmodel.model', data: out.finish() },
+  ], 'model/3mf');
+};
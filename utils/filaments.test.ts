@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RGBColor } from '../types';
+import {
+  DEFAULT_FILAMENTS,
+  loadFilamentLibrary,
+  parseFilamentLibrary,
+  pickPaletteFromFilaments,
+  snapPaletteToFilaments,
+} from './filaments';
+
+const byId = (id: string) => DEFAULT_FILAMENTS.find(f => f.id === id)!;
+
+describe('parseFilamentLibrary', () => {
+  it('accepts a valid library and normalises the colors', () => {
+    expect(parseFilamentLibrary([{ id: 'a', name: '橙色', hex: '#ff8800', td: 3 }])).toEqual([
+      { id: 'a', name: '橙色', hex: '#FF8800', td: 3 },
+    ]);
+  });
+
+  it('rejects entries with missing or malformed fields', () => {
+    expect(() => parseFilamentLibrary({})).toThrow('耗材库必须是耗材列表');
+    expect(() => parseFilamentLibrary([null])).toThrow('耗材库第 1 项不是有效的耗材');
+    expect(() => parseFilamentLibrary([{ name: '白色', hex: '#FFFFFF', td: 2 }])).toThrow('耗材库第 1 项缺少 ID');
+    expect(() => parseFilamentLibrary([{ id: 'w', hex: '#FFFFFF', td: 2 }])).toThrow('耗材库第 1 项缺少名称');
+    expect(() => parseFilamentLibrary([byId('black'), { id: 'w', name: '白色', td: 2 }])).toThrow(
+      '耗材库第 2 项（白色）的颜色必须是 #RRGGBB 格式'
+    );
+    expect(() => parseFilamentLibrary([{ id: 'w', name: '白色', hex: '#FFFFFF' }])).toThrow(
+      '耗材库第 1 项（白色）的透光距离必须是大于 0 的数字'
+    );
+    expect(() => parseFilamentLibrary([{ id: 'w', name: '白色', hex: '#FFFFFF', td: 0 }])).toThrow('透光距离');
+  });
+});
+
+describe('loadFilamentLibrary', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const stubStorage = (value: string | null) =>
+    vi.stubGlobal('localStorage', { getItem: () => value });
+
+  it('returns the stored library', () => {
+    stubStorage(JSON.stringify([{ id: 'a', name: '橙色', hex: '#FF8800', td: 3 }]));
+    expect(loadFilamentLibrary()).toEqual([{ id: 'a', name: '橙色', hex: '#FF8800', td: 3 }]);
+  });
+
+  it('falls back to the defaults when the stored library is invalid', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubStorage(JSON.stringify([{ id: 'a', name: '橙色' }]));
+    expect(loadFilamentLibrary()).toBe(DEFAULT_FILAMENTS);
+    expect(warn).toHaveBeenCalled();
+    stubStorage(null);
+    expect(loadFilamentLibrary()).toBe(DEFAULT_FILAMENTS);
+  });
+});
+
+describe('snapPaletteToFilaments', () => {
+  const library = [byId('black'), byId('white'), byId('grey')];
+
+  it('snaps each color to the nearest filament', () => {
+    const swatches = snapPaletteToFilaments([[250, 250, 250], [10, 10, 10]], library, 'lab');
+    expect(swatches.map(s => s.filament.id)).toEqual(['white', 'black']);
+    expect(swatches[0].color).toEqual([255, 255, 255]);
+  });
+
+  it('uses each filament once while the library has enough', () => {
+    // 两种颜色都最接近黑色，色差更大的那个让给下一个最接近的耗材
+    const swatches = snapPaletteToFilaments([[30, 30, 30], [5, 5, 5]], library, 'lab');
+    expect(swatches.map(s => s.filament.id)).toEqual(['grey', 'black']);
+  });
+
+  it('merges colors that have to share a filament', () => {
+    const palette: RGBColor[] = [[0, 0, 0], [250, 250, 250], [240, 240, 240]];
+    const swatches = snapPaletteToFilaments(palette, [byId('black'), byId('white')], 'rgb');
+    expect(swatches.map(s => s.filament.id)).toEqual(['black', 'white']);
+  });
+});
+
+describe('pickPaletteFromFilaments', () => {
+  const red: RGBColor = [193, 46, 31];
+  const white: RGBColor = [255, 255, 255];
+  const samples: RGBColor[] = [red, red, red, red, red, red, white, white, white, white];
+
+  it('picks the filaments that cover the most sample pixels first', () => {
+    for (const space of ['rgb', 'lab', 'oklab'] as const) {
+      const swatches = pickPaletteFromFilaments(samples, DEFAULT_FILAMENTS, 2, space);
+      expect(swatches.map(s => s.filament.id), space).toEqual(['red', 'white']);
+    }
+  });
+
+  it('never picks more filaments than the library has', () => {
+    const swatches = pickPaletteFromFilaments(samples, [byId('red'), byId('white')], 5, 'rgb');
+    expect(swatches.map(s => s.filament.id)).toEqual(['red', 'white']);
+  });
+});
@@ -0,0 +1,193 @@
+import { Filament, Layer, RGBColor, ColorSpace } from '../types';
+import { hexToRgb, srgbToLinear, linearToSrgb, toColorSpace, colorSpaceDistance } from './color';
+
+// 未指定耗材的图层使用的透光距离（mm）
+export const DEFAULT_TD = 2;
+
+const STORAGE_KEY = 'multi-color-relief:filaments';
+
+// 常见 PLA 的参考透光距离，实际数值因品牌批次而异，建议自行测量后修改
+export const DEFAULT_FILAMENTS: Filament[] = [
+  { id: 'black', name: '黑色 PLA', hex: '#000000', td: 0.6 },
+  { id: 'white', name: '白色 PLA', hex: '#FFFFFF', td: 2.5 },
+  { id: 'grey', name: '灰色 PLA', hex: '#8A8D8F', td: 1.2 },
+  { id: 'red', name: '红色 PLA', hex: '#C12E1F', td: 1.8 },
+  { id: 'yellow', name: '黄色 PLA', hex: '#F4D03F', td: 4.0 },
+  { id: 'blue', name: '蓝色 PLA', hex: '#0A4FA3', td: 1.4 },
+  { id: 'green', name: '绿色 PLA', hex: '#1E8A3A', td: 2.0 },
+  { id: 'skin', name: '肤色 PLA', hex: '#F2C6A0', td: 3.2 },
+];
+
+export const createFilament = (name: string, hex: string, td: number): Filament => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  hex: hex.toUpperCase(),
+  td,
+});
+
+/**
+ * 检查耗材库数据的每一项，格式不正确时抛出带中文说明的 Error，
+ * 避免缺少颜色或透光距离的耗材进入透光模拟后才出错。
+ */
+export const parseFilamentLibrary = (value: unknown): Filament[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('耗材库必须是耗材列表');
+  }
+  return value.map((entry, index) => {
+    const label = `耗材库第 ${index + 1} 项`;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`${label}不是有效的耗材`);
+    }
+    const { id, name, hex, td } = entry as Partial<Filament>;
+    if (typeof id !== 'string' || id === '') {
+      throw new Error(`${label}缺少 ID`);
+    }
+    if (typeof name !== 'string') {
+      throw new Error(`${label}缺少名称`);
+    }
+    if (typeof hex !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(hex)) {
+      throw new Error(`${label}（${name}）的颜色必须是 #RRGGBB 格式`);
+    }
+    if (typeof td !== 'number' || !Number.isFinite(td) || td <= 0) {
+      throw new Error(`${label}（${name}）的透光距离必须是大于 0 的数字`);
+    }
+    return { id, name, hex: hex.toUpperCase(), td };
+  });
+};
+
+export const loadFilamentLibrary = (): Filament[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return parseFilamentLibrary(JSON.parse(stored));
+  } catch (error) {
+    console.warn("Failed to load filament library:", error);
+  }
+  return DEFAULT_FILAMENTS;
+};
+
+export const saveFilamentLibrary = (filaments: Filament[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filaments));
+  } catch (error) {
+    console.warn("Failed to save filament library:", error);
+  }
+};
+
+/**
+ * 按透光距离（TD）模拟每种叠层的最终颜色。
+ * 传入按打印顺序排列、带绝对高度的图层；返回值的第 i 项是顶部为第 i 层的像素所呈现的颜色。
+ * 每一层按 厚度 / TD 的比例覆盖下面已叠加的颜色，厚度达到 TD 时完全不透光。
+ */
+export const simulateLayerColors = (layers: Layer[]): RGBColor[] => {
+  const result: RGBColor[] = [];
+  let mixed: [number, number, number] | null = null;
+  let previousTop = 0;
+
+  for (const layer of layers) {
+    const thickness = Math.max(0, layer.height - previousTop);
+    previousTop = Math.max(previousTop, layer.height);
+    const linear = layer.color.map(srgbToLinear) as [number, number, number];
+
+    if (!mixed) {
+      // 最底层直接作为背景色
+      mixed = linear;
+    } else {
+      const td = layer.td && layer.td > 0 ? layer.td : DEFAULT_TD;
+      const opacity = Math.min(1, thickness / td);
+      mixed = [
+        mixed[0] * (1 - opacity) + linear[0] * opacity,
+        mixed[1] * (1 - opacity) + linear[1] * opacity,
+        mixed[2] * (1 - opacity) + linear[2] * opacity,
+      ];
+    }
+    result.push([linearToSrgb(mixed[0]), linearToSrgb(mixed[1]), linearToSrgb(mixed[2])]);
+  }
+
+  return result;
+};
+
+export const filamentToLayerColor = (filament: Filament): Pick<Layer, 'color' | 'hex' | 'td' | 'filamentName'> => ({
+  color: hexToRgb(filament.hex),
+  hex: filament.hex.toUpperCase(),
+  td: filament.td,
+  filamentName: filament.name,
+});
+
+export interface FilamentSwatch {
+  color: RGBColor;
+  filament: Filament;
+}
+
+/**
+ * 将聚类得到的调色板吸附到耗材库：按色差从小到大依次配对，
+ * 库存足够时每种耗材只使用一次，避免两个图层变成同一种颜色。
+ */
+export const snapPaletteToFilaments = (palette: RGBColor[], filaments: Filament[], space: ColorSpace): FilamentSwatch[] => {
+  const filamentVectors = filaments.map(f => toColorSpace(hexToRgb(f.hex), space));
+  const pairs: { p: number; f: number; dist: number }[] = [];
+  palette.forEach((color, p) => {
+    const vector = toColorSpace(color, space);
+    filamentVectors.forEach((fVector, f) => pairs.push({ p, f, dist: colorSpaceDistance(vector, fVector, space) }));
+  });
+  pairs.sort((a, b) => a.dist - b.dist);
+
+  const assigned = new Map<number, number>();
+  const usedFilaments = new Set<number>();
+  for (const { p, f } of pairs) {
+    if (assigned.has(p) || usedFilaments.has(f)) continue;
+    assigned.set(p, f);
+    usedFilaments.add(f);
+  }
+  // 库存少于颜色数时，多出的颜色只能重复使用耗材，随后会被合并
+  for (const { p, f } of pairs) {
+    if (!assigned.has(p)) assigned.set(p, f);
+  }
+
+  const seen = new Set<number>();
+  const result: FilamentSwatch[] = [];
+  palette.forEach((_, p) => {
+    const f = assigned.get(p);
+    if (f === undefined || seen.has(f)) return;
+    seen.add(f);
+    result.push({ color: hexToRgb(filaments[f].hex), filament: filaments[f] });
+  });
+  return result;
+};
+
+/**
+ * 直接从耗材库中挑选 count 种耗材：贪心地每次加入能最大程度降低样本像素总色差的耗材。
+ */
+export const pickPaletteFromFilaments = (samples: RGBColor[], filaments: Filament[], count: number, space: ColorSpace): FilamentSwatch[] => {
+  const filamentVectors = filaments.map(f => toColorSpace(hexToRgb(f.hex), space));
+  const sampleVectors = samples.map(c => toColorSpace(c, space));
+  const distances = filamentVectors.map(fVector => Float32Array.from(sampleVectors, sVector => colorSpaceDistance(sVector, fVector, space)));
+
+  const currentMin = new Float32Array(samples.length).fill(Infinity);
+  const chosen: number[] = [];
+  const target = Math.min(count, filaments.length);
+
+  while (chosen.length < target) {
+    let bestFilament = -1;
+    let bestCost = Infinity;
+    for (let f = 0; f < filaments.length; f++) {
+      if (chosen.includes(f)) continue;
+      let cost = 0;
+      const dist = distances[f];
+      for (let s = 0; s < samples.length; s++) {
+        cost += Math.min(currentMin[s], dist[s]);
+      }
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestFilament = f;
+      }
+    }
+    if (bestFilament < 0) break;
+    chosen.push(bestFilament);
+    const dist = distances[bestFilament];
+    for (let s = 0; s < samples.length; s++) {
+      currentMin[s] = Math.min(currentMin[s], dist[s]);
+    }
+  }
+
+  return chosen.map(f => ({ color: hexToRgb(filaments[f].hex), filament: filaments[f] }));
+};
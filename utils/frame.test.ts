@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { FrameSettings } from '../types';
+import { edgeDistance, frameLayerIndex, resolveFrameLayout } from './frame';
+import { buildReliefMesh } from './mesh';
+import { validateMesh } from './meshValidation';
+import { resolveOutlineMask } from './outline';
+import { DEFAULT_FRAME, DEFAULT_SETTINGS } from './settings';
+import { LAYERS, draw } from './testUtils';
+
+// 每个像素对应 1mm
+const layout = (frame: Partial<FrameSettings>, width = 8, height = 6, outlineMask: Uint8Array | null = null) =>
+  resolveFrameLayout(outlineMask, width, height, { modelWidth: width, frame: { ...DEFAULT_FRAME, ...frame } });
+
+describe('edgeDistance', () => {
+  it('measures from pixel centers to the outer edge', () => {
+    const distance = edgeDistance(null, 5, 5);
+    expect(distance[0]).toBeCloseTo(0.5, 5);
+    expect(distance[1 * 5 + 2]).toBeCloseTo(1.5, 5);
+    expect(distance[2 * 5 + 2]).toBeCloseTo(2.5, 5);
+  });
+
+  it('treats pixels outside the outline as the edge', () => {
+    const mask = Uint8Array.from([0, 1, 1, 1]);
+    const distance = edgeDistance(mask, 4, 1);
+    expect(Array.from(distance)).toEqual([0, 0.5, 0.5, 0.5]);
+  });
+});
+
+describe('resolveFrameLayout', () => {
+  it('passes the outline through when nothing is enabled', () => {
+    const outline = new Uint8Array(48).fill(1);
+    expect(layout({}, 8, 6, outline)).toEqual({ mask: outline, frame: null, chamfer: null });
+  });
+
+  it('marks a border of the requested width along the outline', () => {
+    expect(draw(layout({ width: 1 }).frame!, 8)).toEqual([
+      '########',
+      '#......#',
+      '#......#',
+      '#......#',
+      '#......#',
+      '########',
+    ]);
+    const circle = resolveOutlineMask({ width: 8, height: 8 }, { ...DEFAULT_SETTINGS, outline: 'circle', modelWidth: 8 });
+    const { frame } = layout({ width: 1 }, 8, 8, circle);
+    expect(frame!.every((v, i) => !v || circle![i] === 1)).toBe(true);
+    expect(frame![3 * 8 + 3]).toBe(0);
+  });
+
+  it('lowers pixels near the edge by the chamfer size', () => {
+    const { chamfer } = layout({ chamfer: 2 });
+    expect(chamfer![0]).toBeCloseTo(1.5, 5);
+    expect(chamfer![1 * 8 + 3]).toBeCloseTo(0.5, 5);
+    expect(chamfer![2 * 8 + 3]).toBe(0);
+  });
+
+  it('cuts a keyhole with a slot above the round hole', () => {
+    const { mask, frame } = layout({ hanger: 'keyhole', hangerDiameter: 4, hangerX: 0.5, hangerY: 0.7 }, 10, 10);
+    expect(frame).toBeNull();
+    expect(draw(mask!, 10)).toEqual([
+      '##########',
+      '##########',
+      '##########',
+      '####..####',
+      '####..####',
+      '####..####',
+      '###....###',
+      '###....###',
+      '####..####',
+      '##########',
+    ]);
+  });
+
+  it('surrounds a keychain hole with a reinforcing ring', () => {
+    const { mask, frame } = layout({ hanger: 'keychain', hangerDiameter: 2, hangerX: 0.5, hangerY: 0.5 }, 8, 8);
+    expect(mask![3 * 8 + 3]).toBe(0);
+    expect(frame![3 * 8 + 3]).toBe(0);
+    expect(frame![2 * 8 + 3]).toBe(1);
+    expect(frame![0]).toBe(0);
+  });
+});
+
+describe('frameLayerIndex', () => {
+  it('clamps the frame layer to the layer table', () => {
+    expect(frameLayerIndex(LAYERS, { ...DEFAULT_FRAME, layer: 1 })).toBe(1);
+    expect(frameLayerIndex(LAYERS, { ...DEFAULT_FRAME, layer: 9 })).toBe(2);
+    expect(frameLayerIndex(LAYERS, { ...DEFAULT_FRAME, layer: -1 })).toBe(0);
+  });
+});
+
+describe('buildReliefMesh (frame)', () => {
+  const width = 20;
+  const height = 16;
+  const heightMap = Uint8Array.from({ length: width * height }, (_, i) => i % 3);
+
+  it('raises the frame above its layer and keeps the mesh closed', () => {
+    const frame = { ...DEFAULT_FRAME, width: 2, height: 1, layer: 2, chamfer: 1, hanger: 'keychain' as const, hangerY: 0.3 };
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 40, frame };
+    for (const geometryMode of ['smooth', 'terraced'] as const) {
+      const mesh = buildReliefMesh(heightMap, width, height, LAYERS, { ...settings, geometryMode });
+      expect(validateMesh(mesh.positions, mesh.indices).isValid, geometryMode).toBe(true);
+      expect(mesh.depth).toBeCloseTo(settings.baseThickness + 0.96 + 1, 5);
+    }
+  });
+
+  it('cuts hanger holes through every outline shape', () => {
+    const frame = { ...DEFAULT_FRAME, width: 1, hanger: 'keyhole' as const, hangerDiameter: 4 };
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 40, frame };
+    for (const outline of ['rectangle', 'circle', 'hexagon'] as const) {
+      const mask = resolveOutlineMask({ width, height }, { ...settings, outline });
+      for (const geometryMode of ['smooth', 'terraced'] as const) {
+        const mesh = buildReliefMesh(heightMap, width, height, LAYERS, { ...settings, geometryMode }, undefined, mask);
+        expect(validateMesh(mesh.positions, mesh.indices).isValid, `${outline} ${geometryMode}`).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { FrameSettings, Layer, Settings } from '../types';
+import { closeDiagonalGaps } from './outline';
+
+// 边框、外缘倒角和挂孔都在像素网格上处理，预览、网格和 3MF 共用同一份结果。
+// 边框和加强环把像素改为所选图层的颜色并抬高；挂孔从外形掩码中挖去；倒角降低靠近外缘的像素
+
+export interface FrameLayout {
+  // 外形减去挂孔后的掩码，null 为完整的矩形
+  mask: Uint8Array | null;
+  // 属于边框或钥匙扣加强环的像素
+  frame: Uint8Array | null;
+  // 倒角时每个像素顶面降低的高度（mm）
+  chamfer: Float32Array | null;
+}
+
+/**
+ * 每个像素中心到模型外缘的距离（像素），图片以外和外形以外的像素距离为 0。
+ * 8 邻域两遍扫描的近似欧氏距离，外缘位于边界像素中心外侧半个像素处。
+ */
+export const edgeDistance = (mask: Uint8Array | null, width: number, height: number): Float32Array => {
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < distance.length; i++) {
+    distance[i] = !mask || mask[i] === 1 ? Infinity : 0;
+  }
+  const at = (x: number, y: number): number =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : distance[y * width + x];
+  const diagonal = Math.SQRT2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (distance[i] === 0) continue;
+      distance[i] = Math.min(distance[i], at(x - 1, y) + 1, at(x, y - 1) + 1, at(x - 1, y - 1) + diagonal, at(x + 1, y - 1) + diagonal);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (distance[i] === 0) continue;
+      distance[i] = Math.min(distance[i], at(x + 1, y) + 1, at(x, y + 1) + 1, at(x + 1, y + 1) + diagonal, at(x - 1, y + 1) + diagonal);
+    }
+  }
+
+  for (let i = 0; i < distance.length; i++) {
+    if (distance[i] > 0) distance[i] -= 0.5;
+  }
+  return distance;
+};
+
+// 边框所在图层在图层表中的序号，超出范围时取最近的图层
+export const frameLayerIndex = (layers: Layer[], frame: FrameSettings): number =>
+  Math.max(0, Math.min(layers.length - 1, Math.round(frame.layer)));
+
+/**
+ * 按当前参数计算边框、倒角和挂孔。outlineMask 为 resolveOutlineMask 得到的外形掩码；
+ * 边框和倒角沿外形的外缘生成，不环绕挂孔。
+ */
+export const resolveFrameLayout = (
+  outlineMask: Uint8Array | null,
+  width: number,
+  height: number,
+  settings: Pick<Settings, 'frame' | 'modelWidth'>
+): FrameLayout => {
+  const { frame } = settings;
+  const pixelSize = settings.modelWidth / width;
+  const hasFrame = frame.width > 0;
+  const hasChamfer = frame.chamfer > 0;
+  if (!hasFrame && !hasChamfer && frame.hanger === 'none') {
+    return { mask: outlineMask, frame: null, chamfer: null };
+  }
+
+  const inside = (i: number) => !outlineMask || outlineMask[i] === 1;
+  const distance = hasFrame || hasChamfer ? edgeDistance(outlineMask, width, height) : null;
+
+  let framePixels: Uint8Array | null = null;
+  if (distance && hasFrame) {
+    framePixels = new Uint8Array(width * height);
+    for (let i = 0; i < framePixels.length; i++) {
+      if (inside(i) && distance[i] * pixelSize < frame.width) framePixels[i] = 1;
+    }
+  }
+
+  let chamfer: Float32Array | null = null;
+  if (distance && hasChamfer) {
+    chamfer = new Float32Array(width * height);
+    for (let i = 0; i < chamfer.length; i++) {
+      if (inside(i)) chamfer[i] = Math.max(0, frame.chamfer - distance[i] * pixelSize);
+    }
+  }
+
+  let mask = outlineMask;
+  if (frame.hanger !== 'none' && frame.hangerDiameter > 0) {
+    const cut = outlineMask ? outlineMask.slice() : new Uint8Array(width * height).fill(1);
+    const cx = frame.hangerX * width;
+    const cy = frame.hangerY * height;
+    const r = frame.hangerDiameter / 2 / pixelSize;
+    const ring = frame.hanger === 'keychain' ? (framePixels ??= new Uint8Array(width * height)) : null;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (!cut[i]) continue;
+        const dx = x + 0.5 - cx;
+        const dy = y + 0.5 - cy;
+        const d = Math.hypot(dx, dy);
+        // 挂墙孔的窄槽从圆孔向上延伸，螺丝头从圆孔穿入后滑到槽顶
+        const isHole = d <= r || (frame.hanger === 'keyhole' && Math.abs(dx) <= r / 2 && dy <= 0 && dy >= -2 * r);
+        if (isHole) {
+          cut[i] = 0;
+        } else if (ring && d <= 2 * r) {
+          ring[i] = 1;
+        }
+      }
+    }
+    mask = closeDiagonalGaps(cut, width, height);
+  }
+
+  return { mask, frame: framePixels, chamfer };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HISTORY_LIMIT,
+  canRedo,
+  canUndo,
+  createHistory,
+  currentEntry,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+} from './history';
+
+const build = (...entries: string[]) => entries.slice(1).reduce((history, entry) => pushHistory(history, entry), createHistory(entries[0]));
+
+describe('history', () => {
+  it('starts with the initial state and nothing to undo or redo', () => {
+    const history = createHistory('a');
+    expect(currentEntry(history)).toBe('a');
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('records new states and moves through them with undo and redo', () => {
+    let history = build('a', 'b', 'c');
+    expect(currentEntry(history)).toBe('c');
+    expect(canRedo(history)).toBe(false);
+
+    history = undoHistory(history);
+    expect(currentEntry(history)).toBe('b');
+    history = undoHistory(history);
+    expect(currentEntry(history)).toBe('a');
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(true);
+
+    history = redoHistory(redoHistory(history));
+    expect(currentEntry(history)).toBe('c');
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('leaves the history unchanged when there is nothing to undo or redo', () => {
+    const initial = createHistory('a');
+    expect(undoHistory(initial)).toBe(initial);
+    const latest = build('a', 'b');
+    expect(redoHistory(latest)).toBe(latest);
+  });
+
+  it('discards the redo branch when a new state is recorded', () => {
+    const history = pushHistory(undoHistory(undoHistory(build('a', 'b', 'c'))), 'd');
+    expect(history.entries).toEqual(['a', 'd']);
+    expect(currentEntry(history)).toBe('d');
+    expect(canRedo(history)).toBe(false);
+    expect(currentEntry(undoHistory(history))).toBe('a');
+  });
+
+  it('drops the oldest states beyond the limit', () => {
+    let history = createHistory(0);
+    for (let n = 1; n <= 5; n++) history = pushHistory(history, n, 3);
+    expect(history).toEqual({ entries: [3, 4, 5], index: 2 });
+    history = undoHistory(undoHistory(history));
+    expect(currentEntry(history)).toBe(3);
+    expect(canUndo(history)).toBe(false);
+  });
+
+  it('keeps HISTORY_LIMIT states by default', () => {
+    let history = createHistory(0);
+    for (let n = 1; n <= HISTORY_LIMIT + 10; n++) history = pushHistory(history, n);
+    expect(history.entries).toHaveLength(HISTORY_LIMIT);
+    expect(history.entries[0]).toBe(11);
+    expect(currentEntry(history)).toBe(HISTORY_LIMIT + 10);
+  });
+});
@@ -0,0 +1,30 @@
+// 撤销 / 重做历史：entries[index] 是当前状态，index 之后的是可重做的状态
+
+export interface History<T> {
+  entries: T[];
+  index: number;
+}
+
+// 保留的最多历史条数，超出时丢弃最早的记录
+export const HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(initial: T): History<T> => ({ entries: [initial], index: 0 });
+
+export const currentEntry = <T>(history: History<T>): T => history.entries[history.index];
+
+// 记录新状态会丢弃所有可重做的状态
+export const pushHistory = <T>(history: History<T>, entry: T, limit = HISTORY_LIMIT): History<T> => {
+  const entries = [...history.entries.slice(0, history.index + 1), entry];
+  const overflow = Math.max(0, entries.length - limit);
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+};
+
+export const canUndo = <T>(history: History<T>): boolean => history.index > 0;
+
+export const canRedo = <T>(history: History<T>): boolean => history.index < history.entries.length - 1;
+
+export const undoHistory = <T>(history: History<T>): History<T> =>
+  canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redoHistory = <T>(history: History<T>): History<T> =>
+  canRedo(history) ? { ...history, index: history.index + 1 } : history;
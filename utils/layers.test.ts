@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Layer } from '../types';
+import { getLayerHeightIssue, recalculateLayerHeights, snapLayerHeight, withBaseThickness } from './layers';
+import { DEFAULT_SETTINGS } from './settings';
+
+const makeLayers = (count: number): Layer[] =>
+  Array.from({ length: count }, (_, i) => ({ id: i, color: [i, i, i], hex: '#000000', height: 0 }));
+
+describe('recalculateLayerHeights', () => {
+  it('stacks the first color and later colors by whole print layers above the base', () => {
+    // 底板 0.8mm 占 9 层（0.16 + 8 × 0.08），第一个颜色 8 层，其余每色 2 层
+    const heights = recalculateLayerHeights(makeLayers(4), DEFAULT_SETTINGS).map(l => l.height);
+    expect(heights).toEqual([0.64, 0.8, 0.96, 1.12]);
+  });
+
+  it('starts from the first layer height when there is no base', () => {
+    const settings = { ...DEFAULT_SETTINGS, baseThickness: 0, firstColorLayers: 3, layersPerColor: 1 };
+    const heights = recalculateLayerHeights(makeLayers(3), settings).map(l => l.height);
+    expect(heights).toEqual([0.32, 0.4, 0.48]);
+  });
+
+  it('keeps layer order and identity', () => {
+    const layers = makeLayers(3).reverse();
+    const result = recalculateLayerHeights(layers, DEFAULT_SETTINGS);
+    expect(result.map(l => l.id)).toEqual([2, 1, 0]);
+    expect(layers.every(l => l.height === 0)).toBe(true);
+  });
+
+  it('produces heights that lie on print layer boundaries', () => {
+    const layers = recalculateLayerHeights(makeLayers(6), { ...DEFAULT_SETTINGS, layerHeight: 0.12, firstLayerHeight: 0.2 });
+    layers.forEach((_, index) => {
+      expect(getLayerHeightIssue(layers, index, { ...DEFAULT_SETTINGS, layerHeight: 0.12, firstLayerHeight: 0.2 })).toBeNull();
+    });
+  });
+});
+
+describe('snapLayerHeight', () => {
+  it('snaps to the nearest print layer above the base', () => {
+    expect(snapLayerHeight(0.63, DEFAULT_SETTINGS)).toBe(0.64);
+    expect(snapLayerHeight(0.7, DEFAULT_SETTINGS)).toBe(0.72);
+  });
+
+  it('keeps at least one print layer', () => {
+    expect(snapLayerHeight(0, DEFAULT_SETTINGS)).toBe(0.08);
+    expect(snapLayerHeight(Number.NaN, DEFAULT_SETTINGS)).toBe(0.08);
+  });
+});
+
+describe('withBaseThickness', () => {
+  it('adds the base to every layer height', () => {
+    const layers = recalculateLayerHeights(makeLayers(2), DEFAULT_SETTINGS);
+    expect(withBaseThickness(layers, 0.8).map(l => l.height)).toEqual([1.44, 1.6]);
+    expect(withBaseThickness(layers, 0)).toBe(layers);
+  });
+});
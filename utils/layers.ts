@@ -0,0 +1,63 @@
+import { Layer, Settings } from '../types';
+
+const round = (n: number): number => parseFloat(n.toFixed(3));
+
+// 打印层序号（从 1 开始）对应的层顶 Z 高度
+export const layerTopZ = (layerNumber: number, firstLayerHeight: number, layerHeight: number): number =>
+  round(firstLayerHeight + (layerNumber - 1) * layerHeight);
+
+// 将任意高度吸附到最近的打印层，返回层序号
+export const snapToLayerNumber = (height: number, firstLayerHeight: number, layerHeight: number): number => {
+  if (layerHeight <= 0) return 1;
+  return Math.max(1, Math.round((height - firstLayerHeight) / layerHeight) + 1);
+};
+
+// 底板占用的打印层数，底板厚度本身也会被吸附到打印层边界
+const baseLayerCount = (settings: Settings): number =>
+  settings.baseThickness > 0 ? snapToLayerNumber(settings.baseThickness, settings.firstLayerHeight, settings.layerHeight) : 0;
+
+// 图层表中的高度是底板之上的累积高度，生成模型和换色计划时需要叠加底板厚度
+export const withBaseThickness = (layers: Layer[], baseThickness: number): Layer[] => {
+  if (!(baseThickness > 0)) return layers;
+  return layers.map(layer => ({ ...layer, height: round(layer.height + baseThickness) }));
+};
+
+// 按打印配置重新计算图层的累积高度（打印顺序从下到上）：
+// 第一个颜色打印 firstColorLayers 层，其余颜色每种 layersPerColor 层
+export const recalculateLayerHeights = (layers: Layer[], settings: Settings): Layer[] => {
+  const { firstLayerHeight, layerHeight, firstColorLayers, layersPerColor, baseThickness } = settings;
+  let layerNumber = baseLayerCount(settings);
+  return layers.map((layer, index) => {
+    layerNumber += index === 0 ? firstColorLayers : layersPerColor;
+    return {
+      ...layer,
+      height: round(layerTopZ(layerNumber, firstLayerHeight, layerHeight) - Math.max(0, baseThickness)),
+    };
+  });
+};
+
+// 将手动输入的高度吸附到最近的打印层边界，至少保留一个打印层
+export const snapLayerHeight = (height: number, settings: Settings): number => {
+  const { firstLayerHeight, layerHeight, baseThickness } = settings;
+  const base = Math.max(0, baseThickness);
+  const layerNumber = Math.max(
+    baseLayerCount(settings) + 1,
+    snapToLayerNumber((Number.isFinite(height) ? height : 0) + base, firstLayerHeight, layerHeight)
+  );
+  return round(layerTopZ(layerNumber, firstLayerHeight, layerHeight) - base);
+};
+
+// 检查某个图层的高度是否落在打印层边界上，并且高于下面的图层
+export const getLayerHeightIssue = (layers: Layer[], index: number, settings: Settings): string | null => {
+  const layer = layers[index];
+  if (!Number.isFinite(layer.height) || layer.height <= 0) {
+    return '高度必须大于 0';
+  }
+  if (index > 0 && layer.height <= layers[index - 1].height) {
+    return '高度必须高于下面的图层，否则该颜色不会被打印';
+  }
+  if (Math.abs(snapLayerHeight(layer.height, settings) - layer.height) > 0.001) {
+    return `不在打印层边界上，建议 ${snapLayerHeight(layer.height, settings).toFixed(2)}mm`;
+  }
+  return null;
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { GeometryMode, MeshBuffers } from '../types';
+import { buildReliefMesh } from './mesh';
+import { validateMesh } from './meshValidation';
+import { closeDiagonalGaps, resolveOutlineMask } from './outline';
+import { DEFAULT_SETTINGS } from './settings';
+import { LAYERS } from './testUtils';
+
+const build = (heightMap: number[], width: number, height: number, geometryMode: GeometryMode): MeshBuffers =>
+  buildReliefMesh(Uint8Array.from(heightMap), width, height, LAYERS, { ...DEFAULT_SETTINGS, modelWidth: 40, geometryMode });
+
+const bounds = (positions: Float32Array) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  return { min, max };
+};
+
+// 4 × 3 像素，右侧两列为第二个颜色
+const STEP = [0, 0, 1, 1, 0, 0, 1, 1, 0, 0, 0, 0];
+const FLAT = new Array(12).fill(0);
+
+// 伪随机的图层分布，包含大量对角相接的像素
+const noise = (width: number, height: number): number[] => {
+  let seed = 1;
+  return Array.from({ length: width * height }, () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed % 3;
+  });
+};
+
+describe('buildReliefMesh (smooth)', () => {
+  it('builds a flat image as a closed box of 12 triangles', () => {
+    expect(build(FLAT, 4, 3, 'smooth').indices.length / 3).toBe(12);
+  });
+
+  it('keeps triangle counts low by merging flat regions', () => {
+    expect(build(STEP, 4, 3, 'smooth').indices.length / 3).toBe(40);
+  });
+
+  it('spans the pixel centers and rises to the tallest layer plus base', () => {
+    const mesh = build(STEP, 4, 3, 'smooth');
+    const { min, max } = bounds(mesh.positions);
+    expect(min).toEqual([-20, -5, 0]);
+    expect(max[0]).toBe(10);
+    expect(max[1]).toBe(15);
+    expect(max[2]).toBeCloseTo(1.6, 5);
+    expect(mesh.width).toBe(40);
+    expect(mesh.height).toBe(30);
+    expect(mesh.depth).toBeCloseTo(1.76, 5);
+  });
+
+  it('produces a valid closed mesh', () => {
+    const step = build(STEP, 4, 3, 'smooth');
+    expect(validateMesh(step.positions, step.indices).isValid).toBe(true);
+    const mesh = buildReliefMesh(Uint8Array.from(noise(30, 20)), 30, 20, LAYERS, DEFAULT_SETTINGS);
+    expect(validateMesh(mesh.positions, mesh.indices).isValid).toBe(true);
+  });
+});
+
+describe('buildReliefMesh (terraced)', () => {
+  it('builds a flat image as a closed box with one wall quad per border pixel edge', () => {
+    // 顶面和底面都是以边界网格点为外轮廓的扇形（各 14 个三角形），侧壁 14 条像素边 × 2
+    expect(build(FLAT, 4, 3, 'terraced').indices.length / 3).toBe(56);
+  });
+
+  it('adds vertical walls where the height changes', () => {
+    expect(build(STEP, 4, 3, 'terraced').indices.length / 3).toBe(76);
+  });
+
+  it('covers the full pixel footprint', () => {
+    const { min, max } = bounds(build(STEP, 4, 3, 'terraced').positions);
+    expect(min).toEqual([-20, -15, 0]);
+    expect(max[0]).toBe(20);
+    expect(max[1]).toBe(15);
+    expect(max[2]).toBeCloseTo(1.6, 5);
+  });
+
+  it('encloses exactly the volume of the pixel columns', () => {
+    const heightMap = noise(30, 20);
+    const mesh = buildReliefMesh(Uint8Array.from(heightMap), 30, 20, LAYERS, { ...DEFAULT_SETTINGS, geometryMode: 'terraced' });
+    const report = validateMesh(mesh.positions, mesh.indices);
+    const pixelArea = (DEFAULT_SETTINGS.modelWidth / 30) ** 2;
+    const expected = heightMap.reduce((sum, id) => sum + (LAYERS[id].height + DEFAULT_SETTINGS.baseThickness) * pixelArea, 0);
+    expect(report.isValid).toBe(true);
+    expect(report.signedVolume).toBeCloseTo(expected, 0);
+  });
+});
+
+describe('buildReliefMesh (luminance)', () => {
+  it('follows the depth map continuously between the base and the top layer', () => {
+    const width = 6;
+    const height = 5;
+    const depthMap = Float32Array.from({ length: width * height }, (_, i) => (i % width) / (width - 1));
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 30, baseThickness: 0.8 };
+    for (const geometryMode of ['smooth', 'terraced'] as const) {
+      const mesh = buildReliefMesh(new Uint8Array(width * height), width, height, LAYERS, { ...settings, geometryMode }, depthMap);
+      const { min, max } = bounds(mesh.positions);
+      expect(min[2]).toBe(0);
+      expect(max[2]).toBeCloseTo(0.8 + 0.96, 5);
+      expect(mesh.depth).toBeCloseTo(0.8 + 0.96, 5);
+      expect(validateMesh(mesh.positions, mesh.indices).isValid).toBe(true);
+    }
+  });
+
+  it('keeps terraced columns with nearly equal heights apart', () => {
+    // 照片式的噪声深度图：相邻像素高度可能只差不到 1µm，也有大量对角相接的像素
+    const width = 40;
+    const height = 40;
+    let seed = 7;
+    const depthMap = Float32Array.from({ length: width * height }, (_, i) => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      const base = ((i % width) + Math.floor(i / width)) / (width + height);
+      return Math.min(1, Math.max(0, base + ((seed % 2001) - 1000) * 1e-6 + (seed % 7 === 0 ? 0.05 : 0)));
+    });
+    for (const baseThickness of [0.8, 80]) {
+      const settings = { ...DEFAULT_SETTINGS, modelWidth: 40, baseThickness, geometryMode: 'terraced' as const };
+      const mesh = buildReliefMesh(new Uint8Array(width * height), width, height, LAYERS, settings, depthMap);
+      const report = validateMesh(mesh.positions, mesh.indices);
+      expect(report, `base ${baseThickness}`).toMatchObject({ nonManifoldEdges: 0, degenerateTriangles: 0, isValid: true });
+    }
+  });
+});
+
+describe('buildReliefMesh (outline)', () => {
+  const width = 24;
+  const height = 18;
+  const heightMap = noise(width, height);
+
+  it('builds closed meshes that follow every outline shape', () => {
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 48, cornerRadius: 8 };
+    for (const outline of ['circle', 'oval', 'rounded', 'hexagon'] as const) {
+      const mask = resolveOutlineMask({ width, height }, { ...settings, outline });
+      for (const geometryMode of ['smooth', 'terraced'] as const) {
+        const mesh = buildReliefMesh(Uint8Array.from(heightMap), width, height, LAYERS, { ...settings, geometryMode }, undefined, mask);
+        const report = validateMesh(mesh.positions, mesh.indices);
+        expect(report.isValid, `${outline} ${geometryMode}`).toBe(true);
+      }
+    }
+  });
+
+  it('keeps the circle inside its inscribed radius', () => {
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 48, geometryMode: 'terraced' as const };
+    const mask = resolveOutlineMask({ width, height }, { ...settings, outline: 'circle' });
+    const { positions } = buildReliefMesh(Uint8Array.from(heightMap), width, height, LAYERS, settings, undefined, mask);
+    const radius = (height / 2) * 2;
+    for (let i = 0; i < positions.length; i += 3) {
+      expect(Math.hypot(positions[i], positions[i + 1])).toBeLessThanOrEqual(radius + 2 * Math.SQRT2 + 1e-6);
+    }
+  });
+
+  it('encloses exactly the masked pixel columns, including holes and diagonal contacts', () => {
+    // 带孔的方环，右下角另有一个只以对角相接的像素
+    const size = 8;
+    const mask = new Uint8Array(size * size);
+    for (let y = 1; y < 6; y++) {
+      for (let x = 1; x < 6; x++) mask[y * size + x] = x === 3 && y === 3 ? 0 : 1;
+    }
+    mask[6 * size + 6] = 1;
+    const closed = closeDiagonalGaps(mask, size, size);
+    const ids = noise(size, size);
+    const settings = { ...DEFAULT_SETTINGS, modelWidth: 16, geometryMode: 'terraced' as const };
+    const mesh = buildReliefMesh(Uint8Array.from(ids), size, size, LAYERS, settings, undefined, closed);
+    const report = validateMesh(mesh.positions, mesh.indices);
+    const pixelArea = 4;
+    const expected = ids.reduce((sum, id, i) => sum + (closed[i] ? (LAYERS[id].height + settings.baseThickness) * pixelArea : 0), 0);
+    expect(report.isValid).toBe(true);
+    expect(report.signedVolume).toBeCloseTo(expected, 3);
+
+    const smooth = buildReliefMesh(Uint8Array.from(ids), size, size, LAYERS, { ...settings, geometryMode: 'smooth' }, undefined, closed);
+    expect(validateMesh(smooth.positions, smooth.indices).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,580 @@
+import { Layer, MeshBuffers, MeshSettings } from '../types';
+import { withBaseThickness } from './layers';
+import { reliefTopHeight } from './depth';
+import { closeDiagonalGaps } from './outline';
+import { frameLayerIndex, resolveFrameLayout } from './frame';
+import { labelLayerIndex, resolveLabelMasks } from './text';
+
+// 根据图层索引图生成浮雕网格，只输出类型化数组，可以在 Web Worker 中运行。
+// 两种几何模式都把等高区域贪心合并为大矩形，矩形边上只保留相邻面实际用到的网格点，
+// 保证网格封闭且没有 T 形接缝。给定外形掩码时只生成外形内的部分，侧壁沿外形边界生成。
+
+// 按需扩容的类型化数组
+interface Growable<T> {
+  push3: (a: number, b: number, c: number) => void;
+  readonly length: number;
+  toArray: () => T;
+}
+
+const createGrowable = <T extends Float32Array | Uint32Array>(create: (size: number) => T, initialSize: number): Growable<T> => {
+  let data = create(Math.max(16, initialSize));
+  let length = 0;
+  return {
+    push3: (a: number, b: number, c: number) => {
+      if (length + 3 > data.length) {
+        const next = create(data.length * 2);
+        next.set(data);
+        data = next;
+      }
+      data[length++] = a;
+      data[length++] = b;
+      data[length++] = c;
+    },
+    get length() {
+      return length;
+    },
+    toArray: (): T => data.slice(0, length) as T,
+  };
+};
+
+// 凸多边形三角化：只有四个角点时直接切成两个三角形，否则从中心点扇形展开。
+// vertices 按俯视逆时针排列，flip 为 true 时生成朝下的面
+const fillPolygon = (indices: Growable<Uint32Array>, vertices: number[], center: () => number, flip: boolean) => {
+  const add = (a: number, b: number, c: number) => flip ? indices.push3(a, c, b) : indices.push3(a, b, c);
+  if (vertices.length === 4) {
+    add(vertices[0], vertices[1], vertices[2]);
+    add(vertices[0], vertices[2], vertices[3]);
+    return;
+  }
+  const mid = center();
+  for (let i = 0; i < vertices.length; i++) {
+    add(mid, vertices[i], vertices[(i + 1) % vertices.length]);
+  }
+};
+
+// 在 cols × rows 的单元格上贪心合并键值相同的单元格。
+// rects 为 [x, y, 宽, 高] 的扁平数组，merged 标记已被合并的单元格
+const mergeRectangles = (
+  cols: number,
+  rows: number,
+  mergeable: (x: number, y: number) => boolean,
+  key: (x: number, y: number) => number
+): { rects: number[]; merged: Uint8Array } => {
+  const rects: number[] = [];
+  const merged = new Uint8Array(cols * rows);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (merged[y * cols + x] || !mergeable(x, y)) continue;
+      const k = key(x, y);
+      const canMerge = (cx: number, cy: number) => !merged[cy * cols + cx] && mergeable(cx, cy) && key(cx, cy) === k;
+      // 先向右扩展，再整行向下扩展
+      let rw = 1;
+      while (x + rw < cols && canMerge(x + rw, y)) rw++;
+      let rh = 1;
+      expand: while (y + rh < rows) {
+        for (let dx = 0; dx < rw; dx++) {
+          if (!canMerge(x + dx, y + rh)) break expand;
+        }
+        rh++;
+      }
+      for (let dy = 0; dy < rh; dy++) {
+        merged.fill(1, (y + dy) * cols + x, (y + dy) * cols + x + rw);
+      }
+      rects.push(x, y, rw, rh);
+    }
+  }
+  return { rects, merged };
+};
+
+// 矩形边界上被标记的点，按俯视逆时针顺序（左边向下、底边向右、右边向上、顶边向左）
+const rectanglePerimeter = (isMarked: Uint8Array, stride: number, x0: number, y0: number, x1: number, y1: number): [number, number][] => {
+  const points: [number, number][] = [];
+  for (let y = y0; y < y1; y++) if (isMarked[y * stride + x0]) points.push([x0, y]);
+  for (let x = x0; x < x1; x++) if (isMarked[y1 * stride + x]) points.push([x, y1]);
+  for (let y = y1; y > y0; y--) if (isMarked[y * stride + x1]) points.push([x1, y]);
+  for (let x = x1; x > x0; x--) if (isMarked[y0 * stride + x]) points.push([x, y0]);
+  return points;
+};
+
+// 纹理坐标按高度归一化，配合颜色条带贴图显示每个换色高度
+const heightUvs = (positions: Float32Array, depth: number): Float32Array => {
+  const vertexCount = positions.length / 3;
+  const uvs = new Float32Array(vertexCount * 2);
+  for (let i = 0; i < vertexCount; i++) {
+    uvs[i * 2] = depth > 0 ? positions[i * 3 + 2] / depth : 0;
+    uvs[i * 2 + 1] = 0.5;
+  }
+  return uvs;
+};
+
+interface MeshFrame {
+  zs: Float32Array;
+  pixelSize: number;
+  width: number;
+  height: number;
+  // 外形掩码，null 为完整的矩形
+  mask: Uint8Array | null;
+}
+
+export interface MeshArrays {
+  positions: Float32Array;
+  indices: Uint32Array;
+}
+
+/**
+ * 平滑模式：顶面以像素中心为网格点，相邻像素之间以斜面相连。
+ * 四角等高的平坦单元格被合并，其余单元格保持两个三角形。
+ */
+const buildSmoothMesh = ({ zs, pixelSize: finalPixelSize, width, height, mask }: MeshFrame): MeshArrays => {
+  if (width < 2 || height < 2) {
+    return { positions: new Float32Array(0), indices: new Uint32Array(0) };
+  }
+
+  const positions = createGrowable(size => new Float32Array(size), width * height);
+  const indices = createGrowable(size => new Uint32Array(size), width * height * 2);
+  const topVertex = new Int32Array(width * height).fill(-1);
+  const bottomVertex = new Int32Array(width * height).fill(-1);
+
+  const worldX = (gx: number) => (gx - width / 2) * finalPixelSize;
+  const worldY = (gy: number) => -(gy - height / 2) * finalPixelSize;
+
+  const addVertex = (x: number, y: number, z: number): number => {
+    positions.push3(x, y, z);
+    return positions.length / 3 - 1;
+  };
+  const top = (gx: number, gy: number): number => {
+    const i = gy * width + gx;
+    if (topVertex[i] < 0) topVertex[i] = addVertex(worldX(gx), worldY(gy), zs[i]);
+    return topVertex[i];
+  };
+  const bottom = (gx: number, gy: number): number => {
+    const i = gy * width + gx;
+    if (bottomVertex[i] < 0) bottomVertex[i] = addVertex(worldX(gx), worldY(gy), 0);
+    return bottomVertex[i];
+  };
+
+  // 单元格 (x, y) 以网格点 (x, y) 为左上角；四角等高时为平坦单元格
+  const cellsX = width - 1;
+  const cellsY = height - 1;
+  const isFlat = new Uint8Array(cellsX * cellsY);
+  for (let y = 0; y < cellsY; y++) {
+    for (let x = 0; x < cellsX; x++) {
+      const z = zs[y * width + x];
+      isFlat[y * cellsX + x] = (zs[y * width + x + 1] === z && zs[(y + 1) * width + x] === z && zs[(y + 1) * width + x + 1] === z) ? 1 : 0;
+    }
+  }
+
+  // 有外形时只保留四个角的像素都在外形内的单元格
+  let cellMask: Uint8Array | null = null;
+  if (mask) {
+    cellMask = new Uint8Array(cellsX * cellsY);
+    for (let y = 0; y < cellsY; y++) {
+      for (let x = 0; x < cellsX; x++) {
+        const i = y * width + x;
+        cellMask[y * cellsX + x] = mask[i] & mask[i + 1] & mask[i + width] & mask[i + width + 1];
+      }
+    }
+    cellMask = closeDiagonalGaps(cellMask, cellsX, cellsY);
+  }
+  const inCell = (x: number, y: number): boolean =>
+    x >= 0 && x < cellsX && y >= 0 && y < cellsY && (!cellMask || cellMask[y * cellsX + x] === 1);
+
+  const { rects, merged } = mergeRectangles(cellsX, cellsY, (x, y) => inCell(x, y) && isFlat[y * cellsX + x] === 1, (x, y) => zs[y * width + x]);
+
+  // 标记所有面的角点，矩形边上只有被标记的网格点才需要成为顶点
+  const isCorner = new Uint8Array(width * height);
+  const markCorners = (x0: number, y0: number, x1: number, y1: number) => {
+    isCorner[y0 * width + x0] = 1;
+    isCorner[y0 * width + x1] = 1;
+    isCorner[y1 * width + x0] = 1;
+    isCorner[y1 * width + x1] = 1;
+  };
+  for (let c = 0; c < isFlat.length; c++) {
+    const x = c % cellsX;
+    const y = (c - x) / cellsX;
+    if (!merged[c] && inCell(x, y)) markCorners(x, y, x + 1, y + 1);
+  }
+  for (let r = 0; r < rects.length; r += 4) {
+    markCorners(rects[r], rects[r + 1], rects[r] + rects[r + 2], rects[r + 1] + rects[r + 3]);
+  }
+  // 外形边界上的每个网格点都是侧壁的端点
+  const isBoundary = new Uint8Array(cellMask ? width * height : 0);
+  if (cellMask) {
+    for (let y = 0; y < cellsY; y++) {
+      for (let x = 0; x < cellsX; x++) {
+        if (!inCell(x, y)) continue;
+        if (!inCell(x - 1, y)) isBoundary[y * width + x] = isBoundary[(y + 1) * width + x] = 1;
+        if (!inCell(x + 1, y)) isBoundary[y * width + x + 1] = isBoundary[(y + 1) * width + x + 1] = 1;
+        if (!inCell(x, y - 1)) isBoundary[y * width + x] = isBoundary[y * width + x + 1] = 1;
+        if (!inCell(x, y + 1)) isBoundary[(y + 1) * width + x] = isBoundary[(y + 1) * width + x + 1] = 1;
+      }
+    }
+    for (let i = 0; i < isBoundary.length; i++) isCorner[i] |= isBoundary[i];
+  }
+
+  const perimeter = (x0: number, y0: number, x1: number, y1: number) => rectanglePerimeter(isCorner, width, x0, y0, x1, y1);
+
+  // 顶面：合并后的平坦矩形
+  for (let r = 0; r < rects.length; r += 4) {
+    const x0 = rects[r];
+    const y0 = rects[r + 1];
+    const x1 = x0 + rects[r + 2];
+    const y1 = y0 + rects[r + 3];
+    const z = zs[y0 * width + x0];
+    const points = perimeter(x0, y0, x1, y1).map(([gx, gy]) => top(gx, gy));
+    fillPolygon(indices, points, () => addVertex(worldX((x0 + x1) / 2), worldY((y0 + y1) / 2), z), false);
+  }
+
+  // 顶面：高度不一的单元格，每个两个三角形
+  for (let c = 0; c < isFlat.length; c++) {
+    const x = c % cellsX;
+    const y = (c - x) / cellsX;
+    if (merged[c] || !inCell(x, y)) continue;
+    const a = top(x, y);
+    const b = top(x + 1, y);
+    const cc = top(x + 1, y + 1);
+    const d = top(x, y + 1);
+    indices.push3(d, cc, b);
+    indices.push3(d, b, a);
+  }
+
+  if (cellMask) {
+    // 底面：外形内的单元格合并为矩形，矩形角点和外形边界上的网格点成为顶点
+    const { rects: bottomRects } = mergeRectangles(cellsX, cellsY, inCell, () => 0);
+    const isBottomCorner = isBoundary.slice();
+    for (let r = 0; r < bottomRects.length; r += 4) {
+      const x0 = bottomRects[r];
+      const y0 = bottomRects[r + 1];
+      const x1 = x0 + bottomRects[r + 2];
+      const y1 = y0 + bottomRects[r + 3];
+      isBottomCorner[y0 * width + x0] = isBottomCorner[y0 * width + x1] = 1;
+      isBottomCorner[y1 * width + x0] = isBottomCorner[y1 * width + x1] = 1;
+    }
+    for (let r = 0; r < bottomRects.length; r += 4) {
+      const x0 = bottomRects[r];
+      const y0 = bottomRects[r + 1];
+      const x1 = x0 + bottomRects[r + 2];
+      const y1 = y0 + bottomRects[r + 3];
+      const points = rectanglePerimeter(isBottomCorner, width, x0, y0, x1, y1).map(([gx, gy]) => bottom(gx, gy));
+      fillPolygon(indices, points, () => addVertex(worldX((x0 + x1) / 2), worldY((y0 + y1) / 2), 0), true);
+    }
+
+    // 侧壁：外形内单元格与外部相邻的每条边，沿 P→Q 方向外侧位于右手边
+    const addWall = (px: number, py: number, qx: number, qy: number) => {
+      const pLo = bottom(px, py);
+      const qLo = bottom(qx, qy);
+      indices.push3(pLo, qLo, top(qx, qy));
+      indices.push3(pLo, top(qx, qy), top(px, py));
+    };
+    for (let y = 0; y < cellsY; y++) {
+      for (let x = 0; x < cellsX; x++) {
+        if (!inCell(x, y)) continue;
+        if (!inCell(x, y + 1)) addWall(x, y + 1, x + 1, y + 1);
+        if (!inCell(x + 1, y)) addWall(x + 1, y + 1, x + 1, y);
+        if (!inCell(x, y - 1)) addWall(x + 1, y, x, y);
+        if (!inCell(x - 1, y)) addWall(x, y, x, y + 1);
+      }
+    }
+    return { positions: positions.toArray(), indices: indices.toArray() };
+  }
+
+  // 底面：整个外框作为一个多边形，法线朝下
+  const outline = perimeter(0, 0, cellsX, cellsY);
+  fillPolygon(
+    indices,
+    outline.map(([gx, gy]) => bottom(gx, gy)),
+    () => addVertex(worldX(cellsX / 2), worldY(cellsY / 2), 0),
+    true
+  );
+
+  // 侧壁：沿外框逆时针方向，外侧位于行进方向右手边
+  for (let i = 0; i < outline.length; i++) {
+    const [px, py] = outline[i];
+    const [qx, qy] = outline[(i + 1) % outline.length];
+    const pLo = bottom(px, py);
+    const qLo = bottom(qx, qy);
+    const qHi = top(qx, qy);
+    const pHi = top(px, py);
+    indices.push3(pLo, qLo, qHi);
+    indices.push3(pLo, qHi, pHi);
+  }
+
+  return { positions: positions.toArray(), indices: indices.toArray() };
+};
+
+/**
+ * 阶梯模式：每个像素是平顶的柱子，高度变化处为竖直侧壁，
+ * 每个颜色区域的顶面都正好落在图层高度上，切片时换色边界整齐。
+ */
+const buildTerracedMesh = ({ zs, pixelSize, width, height, mask }: MeshFrame): MeshArrays => {
+  const positions = createGrowable(size => new Float32Array(size), width * height);
+  const indices = createGrowable(size => new Uint32Array(size), width * height * 2);
+  // 网格点位于像素角上，共 (width + 1) × (height + 1) 个
+  const stride = width + 1;
+  // 每个网格点（及拆开的一侧）按精确的 z 值查找顶点。亮度浮雕的高度连续变化，
+  // 相邻像素可能只差不到 1µm，按取整后的 z 合并会把不同的顶点并成一个
+  const vertexMap = new Map<number, Map<number, number>>();
+
+  // 图片和外形以外的像素视为高度 0
+  const isInside = (x: number, y: number): boolean =>
+    x >= 0 && x < width && y >= 0 && y < height && (!mask || mask[y * width + x] === 1);
+  const pixelZ = (x: number, y: number): number => isInside(x, y) ? zs[y * width + x] : 0;
+
+  const addVertex = (x: number, y: number, z: number): number => {
+    positions.push3(x, y, z);
+    return positions.length / 3 - 1;
+  };
+  const worldX = (lx: number) => (lx - width / 2) * pixelSize;
+  const worldY = (ly: number) => -(ly - height / 2) * pixelSize;
+
+  // 同一网格点上的不同高度各对应一个顶点。对角两个像素都高于另外两个时，两者在该点只以
+  // 一条竖直棱相接，它们的顶面角点要按所属像素（ownerY 为像素行）拆开，否则网格不是流形
+  const vertex = (lx: number, ly: number, z: number, ownerY: number): number => {
+    const tl = pixelZ(lx - 1, ly - 1);
+    const tr = pixelZ(lx, ly - 1);
+    const bl = pixelZ(lx - 1, ly);
+    const br = pixelZ(lx, ly);
+    const pinched =
+      (z === Math.min(tl, br) && z > Math.max(tr, bl)) || (z === Math.min(tr, bl) && z > Math.max(tl, br));
+    const side = pinched ? (ownerY < ly ? 1 : 2) : 0;
+    const key = (ly * stride + lx) * 3 + side;
+    let levels = vertexMap.get(key);
+    if (!levels) {
+      levels = new Map();
+      vertexMap.set(key, levels);
+    }
+    let index = levels.get(z);
+    if (index === undefined) {
+      index = addVertex(worldX(lx), worldY(ly), z);
+      levels.set(z, index);
+    }
+    return index;
+  };
+
+  // 网格点周围像素（外部视为 0）的全部高度，竖直边需要在这些高度处断开
+  const levelsAt = (lx: number, ly: number): number[] => {
+    const levels = [pixelZ(lx - 1, ly - 1), pixelZ(lx, ly - 1), pixelZ(lx - 1, ly), pixelZ(lx, ly)];
+    return Array.from(new Set(levels)).sort((a, b) => a - b);
+  };
+
+  const { rects } = mergeRectangles(width, height, isInside, (x, y) => zs[y * width + x]);
+
+  // 标记矩形角点与所有侧壁的端点
+  const isMarked = new Uint8Array(stride * (height + 1));
+  for (let r = 0; r < rects.length; r += 4) {
+    const x0 = rects[r];
+    const y0 = rects[r + 1];
+    const x1 = x0 + rects[r + 2];
+    const y1 = y0 + rects[r + 3];
+    isMarked[y0 * stride + x0] = 1;
+    isMarked[y0 * stride + x1] = 1;
+    isMarked[y1 * stride + x0] = 1;
+    isMarked[y1 * stride + x1] = 1;
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isInside(x, y)) continue;
+      const z = zs[y * width + x];
+      if (pixelZ(x + 1, y) !== z || x + 1 === width) {
+        isMarked[y * stride + x + 1] = 1;
+        isMarked[(y + 1) * stride + x + 1] = 1;
+      }
+      if (pixelZ(x, y + 1) !== z || y + 1 === height) {
+        isMarked[(y + 1) * stride + x] = 1;
+        isMarked[(y + 1) * stride + x + 1] = 1;
+      }
+      if (!isInside(x - 1, y)) {
+        isMarked[y * stride + x] = 1;
+        isMarked[(y + 1) * stride + x] = 1;
+      }
+      if (!isInside(x, y - 1)) {
+        isMarked[y * stride + x] = 1;
+        isMarked[y * stride + x + 1] = 1;
+      }
+    }
+  }
+
+  // 顶面：合并后的等高矩形
+  for (let r = 0; r < rects.length; r += 4) {
+    const x0 = rects[r];
+    const y0 = rects[r + 1];
+    const x1 = x0 + rects[r + 2];
+    const y1 = y0 + rects[r + 3];
+    const z = zs[y0 * width + x0];
+    const points = rectanglePerimeter(isMarked, stride, x0, y0, x1, y1).map(([lx, ly]) =>
+      vertex(lx, ly, z, Math.min(ly, y1 - 1))
+    );
+    fillPolygon(indices, points, () => addVertex(worldX((x0 + x1) / 2), worldY((y0 + y1) / 2), z), false);
+  }
+
+  // 底面：有外形时把外形内的像素合并为矩形，矩形角点和外形边界上的网格点都要成为顶点
+  if (mask) {
+    const { rects: bottomRects } = mergeRectangles(width, height, isInside, () => 0);
+    const isBottomMarked = new Uint8Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!isInside(x, y)) continue;
+        if (!isInside(x - 1, y)) isBottomMarked[y * stride + x] = isBottomMarked[(y + 1) * stride + x] = 1;
+        if (!isInside(x + 1, y)) isBottomMarked[y * stride + x + 1] = isBottomMarked[(y + 1) * stride + x + 1] = 1;
+        if (!isInside(x, y - 1)) isBottomMarked[y * stride + x] = isBottomMarked[y * stride + x + 1] = 1;
+        if (!isInside(x, y + 1)) isBottomMarked[(y + 1) * stride + x] = isBottomMarked[(y + 1) * stride + x + 1] = 1;
+      }
+    }
+    for (let r = 0; r < bottomRects.length; r += 4) {
+      const x0 = bottomRects[r];
+      const y0 = bottomRects[r + 1];
+      const x1 = x0 + bottomRects[r + 2];
+      const y1 = y0 + bottomRects[r + 3];
+      isBottomMarked[y0 * stride + x0] = isBottomMarked[y0 * stride + x1] = 1;
+      isBottomMarked[y1 * stride + x0] = isBottomMarked[y1 * stride + x1] = 1;
+    }
+    for (let r = 0; r < bottomRects.length; r += 4) {
+      const x0 = bottomRects[r];
+      const y0 = bottomRects[r + 1];
+      const x1 = x0 + bottomRects[r + 2];
+      const y1 = y0 + bottomRects[r + 3];
+      const points = rectanglePerimeter(isBottomMarked, stride, x0, y0, x1, y1).map(([lx, ly]) =>
+        vertex(lx, ly, 0, Math.min(ly, y1 - 1))
+      );
+      fillPolygon(indices, points, () => addVertex(worldX((x0 + x1) / 2), worldY((y0 + y1) / 2), 0), true);
+    }
+  } else {
+    const outline = rectanglePerimeter(isMarked, stride, 0, 0, width, height);
+    fillPolygon(
+      indices,
+      outline.map(([lx, ly]) => vertex(lx, ly, 0, ly)),
+      () => addVertex(0, 0, 0),
+      true
+    );
+  }
+
+  // 竖直侧壁：沿 P→Q 方向外侧位于右手边，两侧竖直边按网格点上的高度断开后逐段缝合
+  const addWall = (px: number, py: number, qx: number, qy: number, zLo: number, zHi: number, ownerY: number) => {
+    const pLevels = levelsAt(px, py).filter(z => z >= zLo && z <= zHi);
+    const qLevels = levelsAt(qx, qy).filter(z => z >= zLo && z <= zHi);
+    let i = 0;
+    let j = 0;
+    while (i < pLevels.length - 1 || j < qLevels.length - 1) {
+      const advanceQ = i === pLevels.length - 1 || (j < qLevels.length - 1 && qLevels[j + 1] <= pLevels[i + 1]);
+      const p = vertex(px, py, pLevels[i], ownerY);
+      const q = vertex(qx, qy, qLevels[j], ownerY);
+      if (advanceQ) {
+        indices.push3(p, q, vertex(qx, qy, qLevels[++j], ownerY));
+      } else {
+        indices.push3(p, q, vertex(px, py, pLevels[++i], ownerY));
+      }
+    }
+  };
+
+  // 每条高度落差只从较高一侧生成一次侧壁；像素四角 a 左上、b 右上、c 右下、d 左下
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isInside(x, y)) continue;
+      const z = zs[y * width + x];
+      const south = pixelZ(x, y + 1);
+      const east = pixelZ(x + 1, y);
+      const north = pixelZ(x, y - 1);
+      const west = pixelZ(x - 1, y);
+      if (south < z) addWall(x, y + 1, x + 1, y + 1, south, z, y);
+      if (east < z) addWall(x + 1, y + 1, x + 1, y, east, z, y);
+      if (north < z) addWall(x + 1, y, x, y, north, z, y);
+      if (west < z) addWall(x, y, x, y + 1, west, z, y);
+    }
+  }
+
+  return { positions: positions.toArray(), indices: indices.toArray() };
+};
+
+/**
+ * 把像素掩码挤出为 zLo 到 zHi 之间的平板实体，3MF 的每个图层部件都是这样一块。
+ * 与阶梯模式共用矩形合并；只以对角相接的像素要先用 closeDiagonalGaps 连成一片。
+ */
+export const buildLayerSlab = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  pixelSize: number,
+  zLo: number,
+  zHi: number
+): MeshArrays => {
+  const zs = new Float32Array(width * height).fill(1);
+  const { positions, indices } = buildTerracedMesh({ zs, pixelSize, width, height, mask });
+  for (let i = 2; i < positions.length; i += 3) {
+    positions[i] = positions[i] > 0 ? zHi : zLo;
+  }
+  return { positions, indices };
+};
+
+/**
+ * outlineMask 为 resolveOutlineMask 得到的外形掩码，省略或为 null 时生成完整的矩形。
+ * 边框、倒角和挂孔按 settings.frame 在外形上叠加，文字标签按 settings.labels 叠加在浮雕和边框上。
+ */
+export const buildReliefMesh = (
+  heightMap: Uint8Array,
+  width: number,
+  height: number,
+  layers: Layer[],
+  settings: MeshSettings,
+  depthMap?: Float32Array,
+  outlineMask?: Uint8Array | null
+): MeshBuffers => {
+  const { modelWidth, baseThickness, geometryMode } = settings;
+  // 底板与第一个图层同色，直接叠加到每个图层的打印高度上
+  const printLayers = withBaseThickness(layers, baseThickness);
+  let depth = Math.max(...printLayers.map(l => l.height), 0);
+
+  // 每个像素的顶面高度
+  const zs = new Float32Array(width * height);
+  if (depthMap) {
+    // 亮度浮雕：高度在底板顶面到最高图层之间连续变化，至少保留一个首层的厚度
+    const base = Math.max(0, baseThickness);
+    const top = reliefTopHeight(layers);
+    for (let i = 0; i < zs.length; i++) {
+      zs[i] = Math.max(settings.firstLayerHeight, base + depthMap[i] * top);
+    }
+  } else {
+    const layerHeightById = new Map<number, number>();
+    layers.forEach((layer, index) => {
+      layerHeightById.set(layer.id, printLayers[index].height || 0);
+    });
+    for (let i = 0; i < zs.length; i++) {
+      zs[i] = layerHeightById.get(heightMap[i]) ?? printLayers[0]?.height ?? 0;
+    }
+  }
+
+  const layout = resolveFrameLayout(outlineMask ?? null, width, height, settings);
+  if (layout.frame && printLayers.length > 0) {
+    const frameZ = printLayers[frameLayerIndex(printLayers, settings.frame)].height + Math.max(0, settings.frame.height);
+    for (let i = 0; i < zs.length; i++) {
+      if (layout.frame[i]) zs[i] = frameZ;
+    }
+    depth = Math.max(depth, frameZ);
+  }
+  if (printLayers.length > 0) {
+    for (const { label, mask } of resolveLabelMasks(width, height, settings)) {
+      const layerZ = printLayers[labelLayerIndex(printLayers, label)].height;
+      const raisedZ = layerZ + Math.max(0, label.depth);
+      for (let i = 0; i < zs.length; i++) {
+        if (mask[i]) zs[i] = label.mode === 'raised' ? raisedZ : Math.min(zs[i], layerZ);
+      }
+      if (label.mode === 'raised') depth = Math.max(depth, raisedZ);
+    }
+  }
+  if (layout.chamfer) {
+    for (let i = 0; i < zs.length; i++) {
+      zs[i] = Math.max(settings.firstLayerHeight, zs[i] - layout.chamfer[i]);
+    }
+  }
+
+  const frame: MeshFrame = { zs, pixelSize: modelWidth / width, width, height, mask: layout.mask };
+  const { positions, indices } = geometryMode === 'terraced' ? buildTerracedMesh(frame) : buildSmoothMesh(frame);
+
+  return {
+    positions,
+    indices,
+    uvs: heightUvs(positions, depth),
+    width: modelWidth,
+    height: (modelWidth / width) * height,
+    depth,
+  };
+};
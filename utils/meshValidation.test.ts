@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { describeMeshIssues, validateMesh } from './meshValidation';
+
+// 单位四面体，法线朝外
+const POSITIONS = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1]);
+const TETRAHEDRON = [0, 2, 1, 0, 1, 3, 1, 2, 3, 0, 3, 2];
+
+describe('validateMesh', () => {
+  it('accepts a closed, consistently wound mesh', () => {
+    const report = validateMesh(POSITIONS, TETRAHEDRON);
+    expect(report).toMatchObject({ triangleCount: 4, openEdges: 0, nonManifoldEdges: 0, inconsistentEdges: 0, degenerateTriangles: 0, isValid: true });
+    expect(report.signedVolume).toBeCloseTo(1 / 6);
+    expect(describeMeshIssues(report)).toEqual([]);
+  });
+
+  it('reports open edges', () => {
+    expect(validateMesh(POSITIONS, TETRAHEDRON.slice(3)).openEdges).toBe(3);
+  });
+
+  it('reports a flipped triangle as inconsistent winding', () => {
+    const flipped = [...TETRAHEDRON];
+    [flipped[0], flipped[1]] = [flipped[1], flipped[0]];
+    const report = validateMesh(POSITIONS, flipped);
+    expect(report.inconsistentEdges).toBe(3);
+    expect(report.isValid).toBe(false);
+  });
+
+  it('reports an inside-out mesh', () => {
+    const report = validateMesh(POSITIONS, [...TETRAHEDRON].reverse());
+    expect(report.signedVolume).toBeLessThan(0);
+    expect(report.isValid).toBe(false);
+  });
+
+  it('reports degenerate and non-manifold triangles', () => {
+    const report = validateMesh(POSITIONS, [...TETRAHEDRON, 0, 1, 1, 0, 2, 1]);
+    expect(report.degenerateTriangles).toBe(1);
+    expect(report.nonManifoldEdges).toBeGreaterThan(0);
+  });
+});
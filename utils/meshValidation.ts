@@ -0,0 +1,83 @@
+import { MeshValidationReport } from '../types';
+
+// 导出前的网格检查：封闭（没有开放边）、流形（每条边恰好两个三角形）、
+// 绕向一致（相邻三角形以相反方向经过公共边）、没有零面积三角形，且整体法线朝外。
+// 只依赖类型化数组，可以直接对 buildReliefMesh 的输出做单元测试。
+
+// 面积低于该值（mm²）的三角形视为退化
+const DEGENERATE_AREA = 1e-10;
+
+export const validateMesh = (positions: ArrayLike<number>, indices: ArrayLike<number>): MeshValidationReport => {
+  const vertexCount = positions.length / 3;
+  const triangleCount = Math.floor(indices.length / 3);
+  // 有向边 a→b 出现的次数，键为 a * vertexCount + b
+  const directed = new Map<number, number>();
+  let degenerateTriangles = 0;
+  let signedVolume = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = indices[t * 3];
+    const b = indices[t * 3 + 1];
+    const c = indices[t * 3 + 2];
+    for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+      const key = from * vertexCount + to;
+      directed.set(key, (directed.get(key) ?? 0) + 1);
+    }
+
+    const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2];
+    const bx = positions[b * 3], by = positions[b * 3 + 1], bz = positions[b * 3 + 2];
+    const cx = positions[c * 3], cy = positions[c * 3 + 1], cz = positions[c * 3 + 2];
+    const ux = bx - ax, uy = by - ay, uz = bz - az;
+    const vx = cx - ax, vy = cy - ay, vz = cz - az;
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    if (a === b || b === c || c === a || Math.hypot(nx, ny, nz) / 2 < DEGENERATE_AREA) {
+      degenerateTriangles++;
+    }
+    // 以原点为顶点的四面体有向体积之和；封闭网格法线朝外时为正
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+  directed.forEach((forward, key) => {
+    const from = Math.floor(key / vertexCount);
+    const to = key - from * vertexCount;
+    const backward = directed.get(to * vertexCount + from) ?? 0;
+    // 每条无向边只统计一次
+    if (backward > 0 && from > to) return;
+    const uses = forward + backward;
+    if (uses === 1) openEdges++;
+    else if (uses > 2) nonManifoldEdges++;
+    else if (forward !== backward) inconsistentEdges++;
+  });
+
+  return {
+    triangleCount,
+    openEdges,
+    nonManifoldEdges,
+    inconsistentEdges,
+    degenerateTriangles,
+    signedVolume,
+    isValid:
+      triangleCount > 0 &&
+      openEdges === 0 &&
+      nonManifoldEdges === 0 &&
+      inconsistentEdges === 0 &&
+      degenerateTriangles === 0 &&
+      signedVolume > 0,
+  };
+};
+
+export const describeMeshIssues = (report: MeshValidationReport): string[] => {
+  const issues: string[] = [];
+  if (report.triangleCount === 0) issues.push('网格中没有三角形');
+  if (report.openEdges > 0) issues.push(`${report.openEdges} 条开放边（网格不封闭）`);
+  if (report.nonManifoldEdges > 0) issues.push(`${report.nonManifoldEdges} 条非流形边（被两个以上三角形共用）`);
+  if (report.inconsistentEdges > 0) issues.push(`${report.inconsistentEdges} 条边两侧三角形绕向不一致`);
+  if (report.degenerateTriangles > 0) issues.push(`${report.degenerateTriangles} 个零面积三角形`);
+  if (report.triangleCount > 0 && report.signedVolume <= 0) issues.push('整体法线朝内（体积为负）');
+  return issues;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { closeDiagonalGaps, extractAlphaMask, resolveOutlineMask, shapeMask } from './outline';
+import { createRaster } from './raster';
+import { DEFAULT_SETTINGS } from './settings';
+import { draw } from './testUtils';
+
+describe('extractAlphaMask', () => {
+  it('marks opaque pixels', () => {
+    const image = createRaster(3, 1);
+    image.data.set([0, 0, 0, 255, 0, 0, 0, 0, 0, 0, 0, 200]);
+    expect(Array.from(extractAlphaMask(image)!)).toEqual([1, 0, 1]);
+  });
+
+  it('returns nothing for fully opaque or fully transparent images', () => {
+    const image = createRaster(2, 2);
+    expect(extractAlphaMask(image)).toBeUndefined();
+    for (let i = 3; i < image.data.length; i += 4) image.data[i] = 255;
+    expect(extractAlphaMask(image)).toBeUndefined();
+  });
+});
+
+describe('shapeMask', () => {
+  it('centers a circle in the shorter side', () => {
+    expect(draw(shapeMask('circle', 8, 6, 0), 8)).toEqual([
+      '..####..',
+      '.######.',
+      '.######.',
+      '.######.',
+      '.######.',
+      '..####..',
+    ]);
+  });
+
+  it('stretches the oval to the full image', () => {
+    const mask = shapeMask('oval', 10, 4, 0);
+    expect(draw(mask, 10)).toEqual([
+      '..######..',
+      '##########',
+      '##########',
+      '..######..',
+    ]);
+  });
+
+  it('rounds only the corners of the rounded rectangle', () => {
+    expect(draw(shapeMask('rounded', 6, 4, 2), 6)).toEqual([
+      '.####.',
+      '######',
+      '######',
+      '.####.',
+    ]);
+    expect(shapeMask('rounded', 6, 4, 0).every(v => v === 1)).toBe(true);
+  });
+
+  it('builds a flat-topped regular hexagon', () => {
+    expect(draw(shapeMask('hexagon', 8, 7, 0), 8)).toEqual([
+      '..####..',
+      '.######.',
+      '.######.',
+      '########',
+      '.######.',
+      '.######.',
+      '..####..',
+    ]);
+  });
+});
+
+describe('closeDiagonalGaps', () => {
+  it('joins pixels that only touch at a corner', () => {
+    const mask = Uint8Array.from([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    expect(draw(closeDiagonalGaps(mask, 3, 3), 3)).toEqual(['##.', '.##', '..#']);
+    expect(Array.from(mask)).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+  });
+});
+
+describe('resolveOutlineMask', () => {
+  it('uses no mask for rectangles and for alpha outlines without transparency', () => {
+    expect(resolveOutlineMask({ width: 4, height: 4 }, DEFAULT_SETTINGS)).toBeNull();
+    expect(resolveOutlineMask({ width: 4, height: 4 }, { ...DEFAULT_SETTINGS, outline: 'alpha' })).toBeNull();
+  });
+
+  it('converts the corner radius from millimeters to pixels', () => {
+    const settings = { ...DEFAULT_SETTINGS, outline: 'rounded' as const, cornerRadius: 20, modelWidth: 60 };
+    expect(resolveOutlineMask({ width: 6, height: 4 }, settings)).toEqual(shapeMask('rounded', 6, 4, 2));
+  });
+});
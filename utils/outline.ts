@@ -0,0 +1,102 @@
+import { OutlineShape, ProcessedData, RasterImage, Settings } from '../types';
+import { isTransparentPixel } from './raster';
+
+// 模型外形掩码：每个像素一个字节，1 表示像素属于模型，外形以外的像素不生成几何体。
+// 外形为整张图片时掩码为 null，网格和 3MF 按完整的矩形生成
+
+/**
+ * 图片中不透明像素的掩码。图片没有透明像素（或者全部透明）时返回 undefined，
+ * 此时 alpha 外形退化为矩形。
+ */
+export const extractAlphaMask = (image: RasterImage): Uint8Array | undefined => {
+  const mask = new Uint8Array(image.width * image.height);
+  let opaque = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (isTransparentPixel(image, i)) continue;
+    mask[i] = 1;
+    opaque++;
+  }
+  return opaque > 0 && opaque < mask.length ? mask : undefined;
+};
+
+/**
+ * 居中的几何外形，按像素中心是否落在形状内判断。圆形和正六边形（平顶）取能放进图片的最大尺寸，
+ * 椭圆和圆角矩形撑满整张图片；cornerRadius 以像素为单位。
+ */
+export const shapeMask = (
+  shape: Exclude<OutlineShape, 'rectangle' | 'alpha'>,
+  width: number,
+  height: number,
+  cornerRadius: number
+): Uint8Array => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const sqrt3 = Math.sqrt(3);
+  let inside: (dx: number, dy: number) => boolean;
+  if (shape === 'circle') {
+    const r = Math.min(cx, cy);
+    inside = (dx, dy) => dx * dx + dy * dy <= r * r;
+  } else if (shape === 'oval') {
+    inside = (dx, dy) => (dx / cx) ** 2 + (dy / cy) ** 2 <= 1;
+  } else if (shape === 'rounded') {
+    const r = Math.max(0, Math.min(cornerRadius, cx, cy));
+    inside = (dx, dy) => {
+      const ox = dx - (cx - r);
+      const oy = dy - (cy - r);
+      return ox <= 0 || oy <= 0 || ox * ox + oy * oy <= r * r;
+    };
+  } else {
+    const r = Math.min(cx, (2 * cy) / sqrt3);
+    inside = (dx, dy) => dy <= (sqrt3 / 2) * r && sqrt3 * dx + dy <= sqrt3 * r;
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (inside(Math.abs(x + 0.5 - cx), Math.abs(y + 0.5 - cy))) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+/**
+ * 两个区域只在一个角上相接时，网格在该点不是流形。
+ * 补上其中一个相邻像素把它们连成一片，直到不再有这样的角；给定 allowed 时优先补在其中的像素。
+ */
+export const closeDiagonalGaps = (mask: Uint8Array, width: number, height: number, allowed: Uint8Array | null = null): Uint8Array => {
+  const result = mask.slice();
+  const canFill = (i: number) => !allowed || allowed[i] === 1;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let y = 0; y + 1 < height; y++) {
+      for (let x = 0; x + 1 < width; x++) {
+        const a = y * width + x;
+        const b = a + 1;
+        const c = a + width;
+        const d = c + 1;
+        if (result[a] && result[d] && !result[b] && !result[c]) {
+          result[canFill(b) ? b : c] = 1;
+          changed = true;
+        } else if (result[b] && result[c] && !result[a] && !result[d]) {
+          result[canFill(a) ? a : d] = 1;
+          changed = true;
+        }
+      }
+    }
+  }
+  return result;
+};
+
+// 当前参数下的外形掩码，预览、网格和 3MF 共用；alpha 外形在原图没有透明像素时为矩形
+export const resolveOutlineMask = (
+  processedData: Pick<ProcessedData, 'width' | 'height' | 'alphaMask'>,
+  settings: Pick<Settings, 'outline' | 'cornerRadius' | 'modelWidth'>
+): Uint8Array | null => {
+  const { width, height, alphaMask } = processedData;
+  const { outline } = settings;
+  if (outline === 'rectangle') return null;
+  if (outline === 'alpha') return alphaMask ? closeDiagonalGaps(alphaMask, width, height) : null;
+  const radius = (settings.cornerRadius * width) / settings.modelWidth;
+  return closeDiagonalGaps(shapeMask(outline, width, height, radius), width, height);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Layer, RGBColor } from '../types';
+import { addLayer, collectLayerPixels, mergeLayers, splitLayer, togglePinnedColor } from './palette';
+import { createRaster } from './raster';
+import { DEFAULT_SETTINGS } from './settings';
+
+const layer = (id: number, color: RGBColor, hex: string): Layer => ({ id, color, hex, height: 0 });
+
+const LAYERS: Layer[] = [
+  layer(0, [0, 0, 0], '#000000'),
+  layer(1, [128, 128, 128], '#808080'),
+  layer(2, [255, 255, 255], '#FFFFFF'),
+];
+
+describe('togglePinnedColor', () => {
+  it('adds and removes colors case-insensitively', () => {
+    const pinned = togglePinnedColor([], '#ff8000');
+    expect(pinned).toEqual(['#FF8000']);
+    expect(togglePinnedColor(pinned, '#FF8000')).toEqual([]);
+  });
+});
+
+describe('mergeLayers', () => {
+  it('removes the source layer and keeps the target', () => {
+    expect(mergeLayers(LAYERS, 1, 2).map(l => l.id)).toEqual([0, 2]);
+  });
+
+  it('ignores merges into itself or a missing layer', () => {
+    expect(mergeLayers(LAYERS, 1, 1)).toBe(LAYERS);
+    expect(mergeLayers(LAYERS, 1, 9)).toBe(LAYERS);
+  });
+});
+
+describe('addLayer', () => {
+  it('appends a layer with the next free id on top of the stack', () => {
+    const added = addLayer([LAYERS[2], LAYERS[0]], [255, 0, 0]);
+    expect(added[2]).toMatchObject({ id: 3, hex: '#FF0000', color: [255, 0, 0] });
+  });
+
+  it('refuses ids that do not fit in the height map', () => {
+    expect(() => addLayer([layer(255, [0, 0, 0], '#000000')], [1, 2, 3])).toThrow();
+  });
+});
+
+describe('splitLayer', () => {
+  it('re-clusters the layer pixels into two adjacent layers, darker first', () => {
+    const image = createRaster(4, 1);
+    image.data.set([10, 10, 10, 255, 250, 0, 0, 255, 12, 12, 12, 255, 248, 0, 0, 255]);
+    const heightMap = new Uint8Array([1, 1, 1, 1]);
+    const pixels = collectLayerPixels(image, heightMap, 1);
+    expect(pixels).toHaveLength(4);
+
+    const split = splitLayer(LAYERS, 1, pixels, DEFAULT_SETTINGS)!;
+    expect(split.map(l => l.id)).toEqual([0, 1, 3, 2]);
+    expect(split[1].color).toEqual([11, 11, 11]);
+    expect(split[2].color).toEqual([249, 0, 0]);
+  });
+
+  it('returns null when the layer has a single color', () => {
+    expect(splitLayer(LAYERS, 1, [[5, 5, 5], [5, 5, 5]], DEFAULT_SETTINGS)).toBeNull();
+  });
+});
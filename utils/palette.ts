@@ -0,0 +1,81 @@
+import { Layer, RasterImage, RGBColor, Settings } from '../types';
+import { rgbToHex } from './color';
+import { clusterColors, takeSamples } from './quantize';
+
+// 手动编辑调色板：合并、拆分、添加图层。
+// 这里只修改图层表，编辑后需要用 remapImage 按新调色板重新分配像素
+
+// 高度图以 Uint8Array 保存图层 ID
+const MAX_LAYER_ID = 255;
+
+const brightness = (c: RGBColor) => 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2];
+
+const nextLayerId = (layers: Layer[]): number => {
+  const id = layers.reduce((max, layer) => Math.max(max, layer.id), -1) + 1;
+  if (id > MAX_LAYER_ID) {
+    throw new Error('图层数量已达上限');
+  }
+  return id;
+};
+
+const createLayer = (id: number, color: RGBColor, height = 0): Layer => ({
+  id,
+  color,
+  hex: rgbToHex(color[0], color[1], color[2]),
+  height,
+});
+
+// 切换固定颜色，固定的颜色在下次聚类时保持不变
+export const togglePinnedColor = (pinnedColors: string[], hex: string): string[] => {
+  const key = hex.toUpperCase();
+  return pinnedColors.some(c => c.toUpperCase() === key)
+    ? pinnedColors.filter(c => c.toUpperCase() !== key)
+    : [...pinnedColors, key];
+};
+
+// 把 sourceId 图层并入 targetId：移除源图层，保留目标图层的颜色和位置
+export const mergeLayers = (layers: Layer[], sourceId: number, targetId: number): Layer[] => {
+  if (sourceId === targetId || !layers.some(l => l.id === targetId)) return layers;
+  return layers.filter(l => l.id !== sourceId);
+};
+
+// 在最上方添加一个自定义颜色的图层
+export const addLayer = (layers: Layer[], color: RGBColor): Layer[] =>
+  [...layers, createLayer(nextLayerId(layers), color)];
+
+// 取出高度图中属于该图层的原图像素
+export const collectLayerPixels = (imageData: RasterImage, heightMap: Uint8Array, id: number): RGBColor[] => {
+  const pixels: RGBColor[] = [];
+  for (let i = 0; i < heightMap.length; i++) {
+    if (heightMap[i] !== id) continue;
+    pixels.push([imageData.data[i * 4], imageData.data[i * 4 + 1], imageData.data[i * 4 + 2]]);
+  }
+  return pixels;
+};
+
+/**
+ * 对图层内的像素重新聚类为两种颜色，拆成相邻的两个图层（较暗的在下方）。
+ * 较暗的一半沿用原图层 ID 和 TD，另一半使用新 ID；像素颜色无法再分时返回 null。
+ */
+export const splitLayer = (
+  layers: Layer[],
+  id: number,
+  pixels: RGBColor[],
+  settings: Pick<Settings, 'colorSpace' | 'seed'>
+): Layer[] | null => {
+  const index = layers.findIndex(l => l.id === id);
+  if (index < 0) return null;
+  const samples = takeSamples(pixels);
+  if (new Set(samples.map(c => c.join(','))).size < 2) return null;
+
+  const [dark, bright] = clusterColors(samples, 2, settings)
+    .map(c => c.map(Math.round) as RGBColor)
+    .sort((a, b) => brightness(a) - brightness(b));
+  const original = layers[index];
+  const td = original.td !== undefined ? { td: original.td } : {};
+  const split = [
+    { ...createLayer(original.id, dark, original.height), ...td },
+    { ...createLayer(nextLayerId(layers), bright, original.height), ...td },
+  ];
+  return [...layers.slice(0, index), ...split, ...layers.slice(index + 1)];
+};
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { PreprocessSettings, RasterImage } from '../types';
+import {
+  adjustLevels,
+  boxBlur,
+  cropFromDrag,
+  cropRaster,
+  medianDenoise,
+  orientRaster,
+  preprocessImage,
+  removeBackground,
+  transformedSize,
+} from './preprocess';
+import { createRaster } from './raster';
+import { DEFAULT_PREPROCESS } from './settings';
+
+// 每个像素的红色通道存放序号，便于检查几何变换后的位置
+const indexedImage = (width: number, height: number): RasterImage => {
+  const image = createRaster(width, height);
+  for (let i = 0; i < width * height; i++) image.data.set([i, 0, 0, 255], i * 4);
+  return image;
+};
+
+const reds = (image: RasterImage) => Array.from({ length: image.width * image.height }, (_, i) => image.data[i * 4]);
+const alphas = (image: RasterImage) => Array.from({ length: image.width * image.height }, (_, i) => image.data[i * 4 + 3]);
+
+const grayImage = (width: number, values: number[]): RasterImage => {
+  const image = createRaster(width, values.length / width);
+  values.forEach((v, i) => image.data.set([v, v, v, 255], i * 4));
+  return image;
+};
+
+const withPreprocess = (patch: Partial<PreprocessSettings>): PreprocessSettings => ({ ...DEFAULT_PREPROCESS, ...patch });
+
+describe('cropRaster', () => {
+  it('keeps the normalized crop rectangle', () => {
+    const cropped = cropRaster(indexedImage(4, 3), { x: 0.25, y: 1 / 3, width: 0.5, height: 2 / 3 });
+    expect([cropped.width, cropped.height]).toEqual([2, 2]);
+    expect(reds(cropped)).toEqual([5, 6, 9, 10]);
+  });
+
+  it('keeps at least one pixel', () => {
+    const cropped = cropRaster(indexedImage(4, 4), { x: 1, y: 1, width: 0, height: 0 });
+    expect([cropped.width, cropped.height]).toEqual([1, 1]);
+    expect(reds(cropped)).toEqual([15]);
+  });
+});
+
+describe('cropFromDrag', () => {
+  it('normalizes a free drag in either direction', () => {
+    expect(cropFromDrag([10, 20], [60, 40], 100, 100, null)).toEqual({ x: 0.1, y: 0.2, width: 0.5, height: 0.2 });
+    expect(cropFromDrag([60, 40], [10, 20], 100, 100, null)).toEqual({ x: 0.1, y: 0.2, width: 0.5, height: 0.2 });
+  });
+
+  it('locks the aspect ratio to the shorter side and stays inside the image', () => {
+    expect(cropFromDrag([0, 0], [80, 40], 100, 100, 1)).toEqual({ x: 0, y: 0, width: 0.4, height: 0.4 });
+    expect(cropFromDrag([80, 0], [200, 200], 100, 100, 1)).toEqual({ x: 0.8, y: 0, width: 0.2, height: 0.2 });
+  });
+
+  it('ignores a click without dragging', () => {
+    expect(cropFromDrag([5, 5], [6, 6], 100, 100, null)).toBeNull();
+  });
+});
+
+describe('orientRaster', () => {
+  // 3×2:
+  // 0 1 2
+  // 3 4 5
+  const image = indexedImage(3, 2);
+
+  it('rotates clockwise', () => {
+    const rotated = orientRaster(image, 90, false, false);
+    expect([rotated.width, rotated.height]).toEqual([2, 3]);
+    expect(reds(rotated)).toEqual([3, 0, 4, 1, 5, 2]);
+    expect(reds(orientRaster(image, 180, false, false))).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(reds(orientRaster(image, 270, false, false))).toEqual([2, 5, 1, 4, 0, 3]);
+  });
+
+  it('flips after rotating', () => {
+    expect(reds(orientRaster(image, 0, true, false))).toEqual([2, 1, 0, 5, 4, 3]);
+    expect(reds(orientRaster(image, 0, false, true))).toEqual([3, 4, 5, 0, 1, 2]);
+    expect(reds(orientRaster(image, 90, true, false))).toEqual([0, 3, 1, 4, 2, 5]);
+  });
+
+  it('returns the same image when nothing changes', () => {
+    expect(orientRaster(image, 0, false, false)).toBe(image);
+  });
+});
+
+describe('transformedSize', () => {
+  it('accounts for the crop and swaps sides for quarter turns', () => {
+    const preprocess = withPreprocess({ crop: { x: 0, y: 0, width: 0.5, height: 1 }, rotation: 270 });
+    expect(transformedSize(200, 100, preprocess)).toEqual({ width: 100, height: 100 });
+    expect(transformedSize(300, 100, withPreprocess({ rotation: 90 }))).toEqual({ width: 100, height: 300 });
+  });
+});
+
+describe('adjustLevels', () => {
+  it('leaves the image untouched at neutral settings', () => {
+    const image = grayImage(3, [0, 100, 255]);
+    adjustLevels(image, 0, 0, 1);
+    expect(reds(image)).toEqual([0, 100, 255]);
+  });
+
+  it('brightens, stretches contrast and applies gamma without touching alpha', () => {
+    const brighter = grayImage(1, [100]);
+    adjustLevels(brighter, 20, 0, 1);
+    expect(reds(brighter)[0]).toBe(151);
+
+    const contrasted = grayImage(2, [100, 156]);
+    adjustLevels(contrasted, 0, 50, 1);
+    const [low, high] = reds(contrasted);
+    expect(low).toBeLessThan(100);
+    expect(high).toBeGreaterThan(156);
+
+    const gamma = grayImage(1, [64]);
+    adjustLevels(gamma, 0, 0, 2);
+    expect(reds(gamma)[0]).toBe(128);
+    expect(alphas(gamma)).toEqual([255]);
+  });
+});
+
+describe('filters', () => {
+  it('averages neighbours with a box blur', () => {
+    const blurred = boxBlur(grayImage(3, [0, 90, 0]), 1);
+    expect(reds(blurred)).toEqual([45, 30, 45]);
+  });
+
+  it('removes isolated specks with the median filter', () => {
+    const noisy = grayImage(3, [10, 10, 10, 10, 250, 10, 10, 10, 10]);
+    expect(reds(medianDenoise(noisy))).toEqual(new Array(9).fill(10));
+  });
+});
+
+describe('removeBackground', () => {
+  // 白色背景中的黑色圆环，圆环内部也是白色
+  const ring = () =>
+    grayImage(5, [
+      255, 255, 255, 255, 255,
+      255, 0, 0, 0, 255,
+      255, 0, 255, 0, 255,
+      255, 0, 0, 0, 255,
+      255, 255, 255, 255, 255,
+    ]);
+
+  it('clears every matching pixel with a color key', () => {
+    const image = ring();
+    removeBackground(image, 'color-key', '#FAFAFA', 5);
+    expect(alphas(image)[12]).toBe(0);
+    expect(alphas(image).filter(a => a === 0)).toHaveLength(17);
+  });
+
+  it('only clears the background connected to the border with a flood fill', () => {
+    const image = ring();
+    removeBackground(image, 'flood-fill', '#FFFFFF', 5);
+    expect(alphas(image)[12]).toBe(255);
+    expect(alphas(image).filter(a => a === 0)).toHaveLength(16);
+  });
+});
+
+describe('preprocessImage', () => {
+  it('does not modify the input image', () => {
+    const image = grayImage(2, [10, 200, 200, 200]);
+    const before = Array.from(image.data);
+    const result = preprocessImage(image, withPreprocess({ brightness: 50, background: 'color-key', backgroundColor: '#C8C8C8' }), { width: 2, height: 2 });
+    expect(Array.from(image.data)).toEqual(before);
+    expect(alphas(result)).toEqual([255, 0, 0, 0]);
+  });
+
+  it('crops and rotates before resizing to the working size', () => {
+    const result = preprocessImage(indexedImage(4, 2), withPreprocess({ crop: { x: 0.5, y: 0, width: 0.5, height: 1 }, rotation: 90 }), { width: 2, height: 2 });
+    expect(reds(result)).toEqual([6, 2, 7, 3]);
+  });
+});
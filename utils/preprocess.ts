@@ -0,0 +1,243 @@
+import { CropRect, PreprocessSettings, RasterImage } from '../types';
+import { hexToRgb } from './color';
+import { createRaster, resizeRaster } from './raster';
+
+// 量化前的图片预处理，只依赖像素数据，网页和命令行共用。
+// 几何变换（裁剪、旋转、翻转）在原图分辨率上进行，其余处理在缩放到工作分辨率之后进行
+
+// 裁剪框换算为原图像素，至少保留一个像素
+const cropPixels = (imageWidth: number, imageHeight: number, crop: CropRect) => {
+  const x = Math.min(imageWidth - 1, Math.max(0, Math.round(crop.x * imageWidth)));
+  const y = Math.min(imageHeight - 1, Math.max(0, Math.round(crop.y * imageHeight)));
+  const width = Math.max(1, Math.min(imageWidth - x, Math.round(crop.width * imageWidth)));
+  const height = Math.max(1, Math.min(imageHeight - y, Math.round(crop.height * imageHeight)));
+  return { x, y, width, height };
+};
+
+export const cropRaster = (image: RasterImage, crop: CropRect): RasterImage => {
+  const rect = cropPixels(image.width, image.height, crop);
+  const result = createRaster(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * image.width + rect.x) * 4;
+    result.data.set(image.data.subarray(start, start + rect.width * 4), y * rect.width * 4);
+  }
+  return result;
+};
+
+/**
+ * 由拖动的起点和终点（原图像素坐标）得到裁剪框。aspect 为宽高比，
+ * 锁定比例时以较短的一边为准，并在不超出图片的前提下尽量保持拖动方向。
+ * 拖动距离过小时返回 null。
+ */
+export const cropFromDrag = (
+  start: [number, number],
+  end: [number, number],
+  imageWidth: number,
+  imageHeight: number,
+  aspect: number | null
+): CropRect | null => {
+  const [sx, sy] = start;
+  const dx = end[0] - sx;
+  const dy = end[1] - sy;
+  const maxWidth = dx < 0 ? sx : imageWidth - sx;
+  const maxHeight = dy < 0 ? sy : imageHeight - sy;
+  let width = Math.min(Math.abs(dx), maxWidth);
+  let height = Math.min(Math.abs(dy), maxHeight);
+  if (aspect) {
+    if (width / aspect > height) width = height * aspect;
+    else height = width / aspect;
+  }
+  if (width < 2 || height < 2) return null;
+  const x = dx < 0 ? sx - width : sx;
+  const y = dy < 0 ? sy - height : sy;
+  return { x: x / imageWidth, y: y / imageHeight, width: width / imageWidth, height: height / imageHeight };
+};
+
+// 先顺时针旋转，再按旋转后的方向翻转
+export const orientRaster = (
+  image: RasterImage,
+  rotation: PreprocessSettings['rotation'],
+  flipHorizontal: boolean,
+  flipVertical: boolean
+): RasterImage => {
+  if (rotation === 0 && !flipHorizontal && !flipVertical) return image;
+  const swap = rotation === 90 || rotation === 270;
+  const width = swap ? image.height : image.width;
+  const height = swap ? image.width : image.height;
+  const result = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const tx = flipHorizontal ? width - 1 - x : x;
+      const ty = flipVertical ? height - 1 - y : y;
+      // 目标像素 (tx, ty) 对应的原图坐标
+      const [sx, sy] =
+        rotation === 90 ? [ty, image.height - 1 - tx] :
+        rotation === 180 ? [image.width - 1 - tx, image.height - 1 - ty] :
+        rotation === 270 ? [image.width - 1 - ty, tx] :
+        [tx, ty];
+      const s = (sy * image.width + sx) * 4;
+      result.data.set(image.data.subarray(s, s + 4), (y * width + x) * 4);
+    }
+  }
+  return result;
+};
+
+// 裁剪、旋转和翻转，深度图也需要做同样的变换才能与原图对齐
+export const transformRaster = (image: RasterImage, preprocess: PreprocessSettings): RasterImage => {
+  const cropped = preprocess.crop ? cropRaster(image, preprocess.crop) : image;
+  return orientRaster(cropped, preprocess.rotation, preprocess.flipHorizontal, preprocess.flipVertical);
+};
+
+// 几何变换之后的图片尺寸，用于计算工作分辨率
+export const transformedSize = (width: number, height: number, preprocess: PreprocessSettings): { width: number; height: number } => {
+  const crop = preprocess.crop ? cropPixels(width, height, preprocess.crop) : { width, height };
+  const swap = preprocess.rotation === 90 || preprocess.rotation === 270;
+  return swap ? { width: crop.height, height: crop.width } : { width: crop.width, height: crop.height };
+};
+
+// 亮度、对比度和 Gamma 合成一张查找表，只修改 RGB
+export const adjustLevels = (image: RasterImage, brightness: number, contrast: number, gamma: number): void => {
+  if (brightness === 0 && contrast === 0 && gamma === 1) return;
+  const c = Math.max(-254, Math.min(254, contrast * 2.55));
+  const factor = (259 * (c + 255)) / (255 * (259 - c));
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) {
+    const leveled = Math.min(255, Math.max(0, factor * (v + brightness * 2.55 - 128) + 128));
+    lut[v] = Math.round(255 * Math.pow(leveled / 255, 1 / Math.max(0.01, gamma)));
+  }
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+};
+
+// 可分离的盒式模糊，边缘像素按实际覆盖的邻域取平均
+export const boxBlur = (image: RasterImage, radius: number): RasterImage => {
+  const r = Math.round(radius);
+  if (r <= 0) return image;
+  const { width, height } = image;
+  const pass = (source: Uint8ClampedArray, horizontal: boolean): Uint8ClampedArray => {
+    const target = new Uint8ClampedArray(source.length);
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    for (let line = 0; line < lines; line++) {
+      const index = (k: number) => (horizontal ? line * width + k : k * width + line) * 4;
+      for (let k = 0; k < length; k++) {
+        const from = Math.max(0, k - r);
+        const to = Math.min(length - 1, k + r);
+        const o = index(k);
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let n = from; n <= to; n++) sum += source[index(n) + c];
+          target[o + c] = Math.round(sum / (to - from + 1));
+        }
+        target[o + 3] = source[o + 3];
+      }
+    }
+    return target;
+  };
+  return { data: pass(pass(image.data, true), false), width, height };
+};
+
+// 3×3 中值滤波，逐通道取邻域中值
+export const medianDenoise = (image: RasterImage): RasterImage => {
+  const { width, height, data } = image;
+  const result = createRaster(width, height);
+  const window: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        window.length = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const ny = Math.min(height - 1, Math.max(0, y + dy));
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = Math.min(width - 1, Math.max(0, x + dx));
+            window.push(data[(ny * width + nx) * 4 + c]);
+          }
+        }
+        window.sort((a, b) => a - b);
+        result.data[o + c] = window[4];
+      }
+      result.data[o + 3] = data[o + 3];
+    }
+  }
+  return result;
+};
+
+/**
+ * 把背景像素设为透明（alpha = 0），量化时这些像素不参与聚类并归入最底层。
+ * color-key 去除所有接近背景色的像素，flood-fill 只去除与图片边缘连通的部分，
+ * 主体内部与背景同色的区域会被保留。
+ */
+export const removeBackground = (
+  image: RasterImage,
+  mode: PreprocessSettings['background'],
+  backgroundColor: string,
+  tolerance: number
+): void => {
+  if (mode === 'none') return;
+  const { width, height, data } = image;
+  const [kr, kg, kb] = hexToRgb(backgroundColor);
+  const maxDistance = (Math.max(0, tolerance) / 100) * 255;
+  const matches = (p: number) => {
+    const i = p * 4;
+    const dr = data[i] - kr;
+    const dg = data[i + 1] - kg;
+    const db = data[i + 2] - kb;
+    return data[i + 3] > 0 && Math.sqrt(dr * dr + dg * dg + db * db) <= maxDistance;
+  };
+
+  if (mode === 'color-key') {
+    for (let p = 0; p < width * height; p++) {
+      if (matches(p)) data[p * 4 + 3] = 0;
+    }
+    return;
+  }
+
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  const visit = (p: number) => {
+    if (!matches(p)) return;
+    data[p * 4 + 3] = 0;
+    stack[top++] = p;
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p + width < width * height) visit(p + width);
+  }
+};
+
+/**
+ * 完整的预处理流程：几何变换 → 缩放到 size → 去背景 → 降噪、模糊 → 色阶。
+ * 去背景在调整色阶之前进行，这样背景色可以直接从原图中取色。
+ */
+export const preprocessImage = (
+  image: RasterImage,
+  preprocess: PreprocessSettings,
+  size: { width: number; height: number }
+): RasterImage => {
+  const transformed = transformRaster(image, preprocess);
+  let result = resizeRaster(transformed, size.width, size.height);
+  // 后续步骤会原地修改像素，不能改动调用方传入的图片
+  if (result === image) result = { ...image, data: new Uint8ClampedArray(image.data) };
+  removeBackground(result, preprocess.background, preprocess.backgroundColor, preprocess.backgroundTolerance);
+  if (preprocess.denoise) result = medianDenoise(result);
+  result = boxBlur(result, preprocess.blurRadius);
+  adjustLevels(result, preprocess.brightness, preprocess.contrast, preprocess.gamma);
+  return result;
+};
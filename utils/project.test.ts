@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectSnapshot } from '../types';
+import { parseProject, serializeProject } from './project';
+import { renderPaletteImage } from './raster';
+import { DEFAULT_SETTINGS } from './settings';
+import { LAYERS } from './testUtils';
+
+const width = 3;
+const height = 2;
+const heightMap = Uint8Array.from([0, 1, 2, 2, 1, 0]);
+
+const snapshot: ProjectSnapshot = {
+  imageSrc: 'data:image/png;base64,AAAA',
+  depthSrc: null,
+  settings: { ...DEFAULT_SETTINGS, seed: 42, numColors: 3, frame: { ...DEFAULT_SETTINGS.frame, width: 2 } },
+  processedData: {
+    layers: LAYERS,
+    processedImage: renderPaletteImage(heightMap, LAYERS, width, height),
+    heightMap,
+    depthMap: Float32Array.from([0, 0.2, 0.4, 0.6, 0.8, 1]),
+    alphaMask: Uint8Array.from([1, 1, 0, 1, 1, 1]),
+    width,
+    height,
+  },
+  layers: [LAYERS[2], LAYERS[0], LAYERS[1]],
+  userOrderedLayers: [LAYERS[2], LAYERS[0], LAYERS[1]],
+};
+
+// 修改已保存的项目文件，用于构造损坏或来自新版本的文件
+const tamper = (edit: (file: Record<string, any>) => void): string => {
+  const file = JSON.parse(serializeProject(snapshot));
+  edit(file);
+  return JSON.stringify(file);
+};
+
+describe('serializeProject / parseProject', () => {
+  it('restores the saved state', () => {
+    expect(parseProject(serializeProject(snapshot), DEFAULT_SETTINGS)).toEqual(snapshot);
+  });
+
+  it('restores a project that has not been processed yet', () => {
+    const empty = { ...snapshot, processedData: null, layers: null, userOrderedLayers: null };
+    expect(parseProject(serializeProject(empty), DEFAULT_SETTINGS)).toEqual(empty);
+  });
+
+  it('fills settings missing from older files with the defaults', () => {
+    const text = tamper(file => {
+      file.settings = { seed: 7 };
+      delete file.depthSrc;
+      delete file.userOrderedLayers;
+    });
+    const restored = parseProject(text, DEFAULT_SETTINGS);
+    expect(restored.settings).toEqual({ ...DEFAULT_SETTINGS, seed: 7 });
+    expect(restored.depthSrc).toBeNull();
+    expect(restored.userOrderedLayers).toEqual(snapshot.layers);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseProject('{', DEFAULT_SETTINGS)).toThrow('项目文件不是有效的 JSON');
+    expect(() => parseProject('{"format":"other"}', DEFAULT_SETTINGS)).toThrow('不是 MultiColor Relief 项目文件');
+    expect(() => parseProject(tamper(file => { file.version = 2; }), DEFAULT_SETTINGS)).toThrow('项目文件版本过新，请升级后再打开');
+  });
+
+  it('rejects corrupt processing results', () => {
+    const truncated = tamper(file => { file.processed.heightMap = btoa('\x00\x01\x02'); });
+    expect(() => parseProject(truncated, DEFAULT_SETTINGS)).toThrow('项目文件中的处理结果已损坏');
+    const badDepth = tamper(file => { file.processed.depthMap = btoa('\x00\x00\x00\x00'); });
+    expect(() => parseProject(badDepth, DEFAULT_SETTINGS)).toThrow('项目文件中的处理结果已损坏');
+    const noPalette = tamper(file => { delete file.processed.palette; });
+    expect(() => parseProject(noPalette, DEFAULT_SETTINGS)).toThrow('项目文件中的处理结果已损坏');
+  });
+
+  it('rejects processing results without a layer table', () => {
+    expect(() => parseProject(tamper(file => { file.layers = null; }), DEFAULT_SETTINGS)).toThrow('项目文件缺少图层表');
+  });
+});
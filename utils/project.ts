@@ -0,0 +1,135 @@
+import { Layer, ProcessedData, ProjectSnapshot, Settings } from '../types';
+import { renderPaletteImage } from './raster';
+import { mergeSettings } from './settings';
+
+// 项目文件：单个 JSON，包含原图（data URL）、参数、量化结果和用户调整后的图层表，
+// 打开后无需重新处理即可恢复到保存时的状态
+
+const PROJECT_FORMAT = 'multi-color-relief-project';
+const PROJECT_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.relief.json';
+
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  imageSrc: string | null;
+  // 旧版本文件没有深度图
+  depthSrc?: string | null;
+  settings: Partial<Settings>;
+  processed: {
+    width: number;
+    height: number;
+    // base64 编码的 Uint8Array，每个像素一个图层 ID
+    heightMap: string;
+    // base64 编码的 Float32Array，仅亮度浮雕模式有
+    depthMap?: string;
+    // base64 编码的 Uint8Array，原图含透明像素时才有
+    alphaMask?: string;
+    palette: Layer[];
+  } | null;
+  layers: Layer[] | null;
+  userOrderedLayers: Layer[] | null;
+}
+
+const encodeBytes = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const decodeBytes = (encoded: string): Uint8Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const serializeProject = (snapshot: ProjectSnapshot): string => {
+  const { imageSrc, depthSrc, settings, processedData, layers, userOrderedLayers } = snapshot;
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    imageSrc,
+    depthSrc,
+    settings,
+    processed: processedData ? {
+      width: processedData.width,
+      height: processedData.height,
+      heightMap: encodeBytes(processedData.heightMap),
+      ...(processedData.depthMap ? { depthMap: encodeBytes(new Uint8Array(processedData.depthMap.buffer, processedData.depthMap.byteOffset, processedData.depthMap.byteLength)) } : {}),
+      ...(processedData.alphaMask ? { alphaMask: encodeBytes(processedData.alphaMask) } : {}),
+      palette: processedData.layers,
+    } : null,
+    layers,
+    userOrderedLayers,
+  };
+  return JSON.stringify(file);
+};
+
+/**
+ * 解析项目文件。旧版本文件缺少的参数使用 defaults 补齐；
+ * 文件格式不正确时抛出带中文说明的 Error。
+ */
+export const parseProject = (text: string, defaults: Settings): ProjectSnapshot => {
+  let file: ProjectFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('项目文件不是有效的 JSON');
+  }
+  if (!file || file.format !== PROJECT_FORMAT) {
+    throw new Error('不是 MultiColor Relief 项目文件');
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_VERSION) {
+    throw new Error('项目文件版本过新，请升级后再打开');
+  }
+
+  let processedData: ProcessedData | null = null;
+  if (file.processed) {
+    const { width, height, palette } = file.processed;
+    const heightMap = decodeBytes(file.processed.heightMap);
+    const depthBytes = file.processed.depthMap ? decodeBytes(file.processed.depthMap) : null;
+    const alphaMask = file.processed.alphaMask ? decodeBytes(file.processed.alphaMask) : null;
+    if (
+      !Array.isArray(palette) ||
+      heightMap.length !== width * height ||
+      (depthBytes && depthBytes.length !== width * height * 4) ||
+      (alphaMask && alphaMask.length !== width * height)
+    ) {
+      throw new Error('项目文件中的处理结果已损坏');
+    }
+    const depthMap = depthBytes ? new Float32Array(depthBytes.buffer) : undefined;
+    // 预览图就是每个像素对应的调色板颜色，不必写进文件
+    processedData = {
+      layers: palette,
+      processedImage: renderPaletteImage(heightMap, palette, width, height),
+      heightMap,
+      ...(depthMap ? { depthMap } : {}),
+      ...(alphaMask ? { alphaMask } : {}),
+      width,
+      height,
+    };
+  }
+
+  const layers = Array.isArray(file.layers) ? file.layers : null;
+  if (processedData && !layers) {
+    throw new Error('项目文件缺少图层表');
+  }
+
+  return {
+    imageSrc: typeof file.imageSrc === 'string' ? file.imageSrc : null,
+    depthSrc: typeof file.depthSrc === 'string' ? file.depthSrc : null,
+    settings: mergeSettings(defaults, file.settings),
+    processedData,
+    layers,
+    userOrderedLayers: Array.isArray(file.userOrderedLayers) ? file.userOrderedLayers : layers,
+  };
+};
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { Layer, RGBColor, RasterImage, Settings } from '../types';
+import { quantizeImage, remapImage } from './quantize';
+import { createRaster } from './raster';
+import { DEFAULT_SETTINGS } from './settings';
+
+const makeImage = (width: number, height: number, pixel: (x: number, y: number) => RGBColor): RasterImage => {
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      image.data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+};
+
+const settings = (overrides: Partial<Settings>): Settings => ({ ...DEFAULT_SETTINGS, ...overrides });
+
+const BLOCKS: RGBColor[] = [[200, 30, 30], [20, 20, 120], [240, 240, 200]];
+
+// 三个竖条，每个颜色带少量确定性的噪声
+const blocksImage = makeImage(30, 10, (x, y) => {
+  const base = BLOCKS[Math.floor(x / 10)];
+  const noise = ((x * 7 + y * 13) % 5) - 2;
+  return [base[0] + noise, base[1] - noise, base[2] + noise];
+});
+
+describe('quantizeImage', () => {
+  it('converges to the dominant colors, sorted from dark to bright', () => {
+    const result = quantizeImage(blocksImage, settings({ numColors: 3, dithering: false }), []);
+    const palette = result.layers.map(l => l.color);
+    expect(palette).toHaveLength(3);
+    [BLOCKS[1], BLOCKS[0], BLOCKS[2]].forEach((expected, i) => {
+      palette[i].forEach((channel, c) => expect(Math.abs(channel - expected[c])).toBeLessThanOrEqual(2));
+    });
+  });
+
+  it('assigns every pixel of a block to the same layer', () => {
+    const result = quantizeImage(blocksImage, settings({ numColors: 3, dithering: false }), []);
+    const layerOfBlock = [1, 0, 2];
+    for (let y = 0; y < 10; y++) {
+      for (let x = 0; x < 30; x++) {
+        expect(result.heightMap[y * 30 + x]).toBe(layerOfBlock[Math.floor(x / 10)]);
+      }
+    }
+  });
+
+  it('finds exact colors when the image has as many colors as requested', () => {
+    const image = makeImage(16, 16, (x, y) => ((x + y) % 2 ? [255, 128, 0] : [0, 64, 255]));
+    const result = quantizeImage(image, settings({ numColors: 2, dithering: false }), []);
+    expect(result.layers.map(l => l.hex)).toEqual(['#0040FF', '#FF8000']);
+  });
+
+  it('is deterministic for a given seed', () => {
+    const run = () => quantizeImage(blocksImage, settings({ numColors: 4, seed: 42 }), []);
+    const a = run();
+    const b = run();
+    expect(a.layers).toEqual(b.layers);
+    expect(a.heightMap).toEqual(b.heightMap);
+  });
+
+  it('gives every layer a print height and an id matching the height map', () => {
+    const result = quantizeImage(blocksImage, settings({ numColors: 3 }), []);
+    expect(result.layers.map(l => l.id)).toEqual([0, 1, 2]);
+    expect(result.layers.map(l => l.height)).toEqual([0.64, 0.8, 0.96]);
+    expect(Math.max(...result.heightMap)).toBeLessThan(3);
+  });
+
+  it('leaves transparent pixels out of the palette and puts them on the bottom layer', () => {
+    const image = { ...blocksImage, data: new Uint8ClampedArray(blocksImage.data) };
+    for (let y = 0; y < 10; y++) {
+      for (let x = 20; x < 30; x++) image.data[(y * 30 + x) * 4 + 3] = 0;
+    }
+    const result = quantizeImage(image, settings({ numColors: 2, dithering: false }), []);
+    [BLOCKS[1], BLOCKS[0]].forEach((expected, i) => {
+      result.layers[i].color.forEach((channel, c) => expect(Math.abs(channel - expected[c])).toBeLessThanOrEqual(2));
+    });
+    for (let y = 0; y < 10; y++) {
+      expect(result.heightMap[y * 30 + 25]).toBe(result.layers[0].id);
+    }
+  });
+});
+
+describe('palette editing', () => {
+  it('keeps pinned colors fixed while clustering', () => {
+    const result = quantizeImage(blocksImage, settings({ numColors: 3, dithering: false, pinnedColors: ['#FF0000'] }), []);
+    expect(result.layers.map(l => l.hex)).toContain('#FF0000');
+    // 红色竖条归入固定颜色，其余两条各自成为一个颜色
+    const red = result.layers.find(l => l.hex === '#FF0000')!;
+    expect(result.heightMap[5]).toBe(red.id);
+    expect(new Set(result.heightMap).size).toBe(3);
+  });
+
+  it('re-assigns pixels against an edited palette and writes layer ids', () => {
+    const edited: Layer[] = [
+      { id: 7, color: [20, 20, 120], hex: '#141478', height: 0.64 },
+      { id: 3, color: [240, 240, 240], hex: '#F0F0F0', height: 0.8 },
+    ];
+    const { heightMap, processedImage } = remapImage(blocksImage, edited, settings({ dithering: false }));
+    expect(heightMap[0]).toBe(7);
+    expect(heightMap[15]).toBe(7);
+    expect(heightMap[25]).toBe(3);
+    expect(Array.from(processedImage.data.subarray(100, 104))).toEqual([240, 240, 240, 255]);
+  });
+});
+
+describe('luminance relief', () => {
+  it('assigns layers by brightness bands and keeps the depth map', () => {
+    const gradient = makeImage(32, 4, x => [x * 8, x * 8, x * 8]);
+    const result = quantizeImage(gradient, settings({ numColors: 3, reliefMode: 'luminance' }), []);
+    expect(result.depthMap).toHaveLength(32 * 4);
+    expect(result.depthMap![0]).toBe(0);
+    expect(result.depthMap![31]).toBe(1);
+    // 从左到右亮度递增，图层 ID（按亮度排序）不会减小
+    const row = Array.from(result.heightMap.subarray(0, 32));
+    expect(row).toEqual([...row].sort((a, b) => a - b));
+    expect(row[0]).toBe(0);
+    expect(row[31]).toBe(2);
+  });
+
+  it('uses a separate depth image when given', () => {
+    const flat = makeImage(4, 1, () => [128, 128, 128]);
+    const depth = makeImage(4, 1, x => [x * 80, x * 80, x * 80]);
+    const result = quantizeImage(flat, settings({ numColors: 2, reliefMode: 'luminance', invertDepth: true }), [], undefined, depth);
+    expect(Array.from(result.depthMap!)).toEqual([1, 2 / 3, 1 / 3, 0].map(v => Math.fround(v)));
+  });
+});
+
+describe('dithering', () => {
+  // 从黑到白的水平渐变，只用两种颜色表示
+  const gradient = makeImage(64, 16, x => {
+    const v = Math.round((x / 63) * 255);
+    return [v, v, v];
+  });
+
+  // 以 8 列为一组比较平均亮度，与有序抖动的阈值图周期一致
+  const BLOCK = 8;
+  const blockMeans = (image: RasterImage): { mean: number; target: number }[] =>
+    Array.from({ length: image.width / BLOCK }, (_, block) => {
+      let sum = 0;
+      let target = 0;
+      for (let x = block * BLOCK; x < (block + 1) * BLOCK; x++) {
+        target += ((x / 63) * 255) * image.height;
+        for (let y = 0; y < image.height; y++) sum += image.data[(y * image.width + x) * 4];
+      }
+      const count = BLOCK * image.height;
+      return { mean: sum / count, target: target / count };
+    });
+
+  // 只统计亮度落在调色板两色之间的分组，其余部分两种方式都无法还原
+  const meanError = (image: RasterImage, dark: number, bright: number): number => {
+    const errors = blockMeans(image)
+      .filter(({ target }) => target >= dark && target <= bright)
+      .map(({ mean, target }) => Math.abs(mean - target));
+    return errors.reduce((a, b) => a + b, 0) / errors.length;
+  };
+
+  it('only outputs palette colors', () => {
+    const result = quantizeImage(gradient, settings({ numColors: 2, dithering: true }), []);
+    const palette = new Set(result.layers.map(l => l.hex));
+    for (let i = 0; i < result.heightMap.length; i++) {
+      const [r, g, b] = result.processedImage.data.subarray(i * 4, i * 4 + 3);
+      expect(palette.has(result.layers[result.heightMap[i]].hex)).toBe(true);
+      expect([r, g, b]).toEqual(result.layers[result.heightMap[i]].color);
+    }
+  });
+
+  it('preserves local average brightness better than nearest-color mapping', () => {
+    const dithered = quantizeImage(gradient, settings({ numColors: 2, dithering: true }), []);
+    const flat = quantizeImage(gradient, settings({ numColors: 2, dithering: false }), []);
+    const [dark, bright] = flat.layers.map(l => l.color[0]);
+    expect(meanError(dithered.processedImage, dark, bright)).toBeLessThan(meanError(flat.processedImage, dark, bright) / 2);
+  });
+
+  it.each(['atkinson', 'jarvis-judice-ninke', 'stucki', 'sierra', 'bayer', 'blue-noise'] as const)(
+    '%s also mixes the palette to follow the gradient',
+    ditherMethod => {
+      const dithered = quantizeImage(gradient, settings({ numColors: 2, ditherMethod }), []);
+      const flat = quantizeImage(gradient, settings({ numColors: 2, dithering: false }), []);
+      const [dark, bright] = flat.layers.map(l => l.color[0]);
+      expect(meanError(dithered.processedImage, dark, bright)).toBeLessThan(meanError(flat.processedImage, dark, bright) / 2);
+    }
+  );
+
+  it('scans serpentine rows without changing the first row', () => {
+    const straight = quantizeImage(gradient, settings({ numColors: 2 }), []);
+    const serpentine = quantizeImage(gradient, settings({ numColors: 2, serpentine: true }), []);
+    expect(serpentine.heightMap.subarray(0, 64)).toEqual(straight.heightMap.subarray(0, 64));
+    expect(serpentine.heightMap).not.toEqual(straight.heightMap);
+  });
+
+  it('falls back to nearest-color mapping at zero strength', () => {
+    const flat = quantizeImage(gradient, settings({ numColors: 2, dithering: false }), []);
+    for (const ditherMethod of ['floyd-steinberg', 'bayer'] as const) {
+      const weak = quantizeImage(gradient, settings({ numColors: 2, ditherMethod, ditherStrength: 0 }), []);
+      expect(weak.heightMap).toEqual(flat.heightMap);
+    }
+  });
+
+  it('maps each pixel to its nearest palette color when disabled', () => {
+    const result = quantizeImage(gradient, settings({ numColors: 2, dithering: false }), []);
+    const [dark, bright] = result.layers.map(l => l.color[0]);
+    for (let x = 0; x < 64; x++) {
+      const v = Math.round((x / 63) * 255);
+      const expected = Math.abs(v - dark) <= Math.abs(v - bright) ? 0 : 1;
+      expect(result.heightMap[x]).toBe(expected);
+    }
+  });
+});
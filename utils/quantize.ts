@@ -0,0 +1,464 @@
+import { RGBColor, Layer, Settings, ProcessedData, Filament, RasterImage, PaletteAssignment } from '../types';
+import { colorDistance, rgbToHex, hexToRgb, ColorVector, toColorSpace, fromColorSpace, colorSpaceDistance, clampColorComponent } from './color';
+import { snapPaletteToFilaments, pickPaletteFromFilaments } from './filaments';
+import { recalculateLayerHeights } from './layers';
+import { createRandom } from './random';
+import { createRaster, isTransparentPixel, renderPaletteImage } from './raster';
+import { assignHeightBands, computeDepthMap } from './depth';
+import { extractAlphaMask } from './outline';
+import { DIFFUSION_KERNELS, isErrorDiffusion, orderedThreshold } from './dither';
+
+// 颜色量化：K-Means 聚类、边缘检测、抖动，并生成每个像素的图层索引
+// 只依赖像素数据，可以在 Web Worker 和 Node 中运行
+
+export type ProgressCallback = (message: string) => void;
+
+const SAMPLE_SIZE = 10000;
+
+const readPixels = (imageData: RasterImage): RGBColor[] => {
+  const pixels: RGBColor[] = [];
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    pixels.push([imageData.data[i], imageData.data[i + 1], imageData.data[i + 2]]);
+  }
+  return pixels;
+};
+
+// K-Means clustering with sampling for performance
+export const takeSamples = (pixels: RGBColor[]): RGBColor[] => {
+  if (pixels.length <= SAMPLE_SIZE) return pixels;
+  const samples: RGBColor[] = [];
+  const step = Math.floor(pixels.length / SAMPLE_SIZE);
+  for (let i = 0; i < SAMPLE_SIZE; i++) {
+    samples.push(pixels[(i * step) % pixels.length]);
+  }
+  return samples;
+};
+
+/**
+ * 在所选颜色空间中对采样像素做 K-Means 聚类，返回 count 个中心（顺序不固定）。
+ * pinned 中的颜色作为固定中心参与聚类但不会移动，数量超过 count 时只取前 count 个。
+ */
+export const clusterColors = (
+  samplePixels: RGBColor[],
+  count: number,
+  settings: Pick<Settings, 'colorSpace' | 'seed'>,
+  pinned: RGBColor[] = [],
+  onProgress: ProgressCallback = () => {}
+): RGBColor[] => {
+  const { colorSpace } = settings;
+  const toSpace = (c: RGBColor) => toColorSpace(c, colorSpace);
+  const sampleVectors = samplePixels.map(toSpace);
+
+  // k-means++ 初始化：使用设置中的随机种子，同一张图片每次得到相同的调色板
+  // 固定颜色直接作为前几个中心，且在迭代中保持不动
+  const random = createRandom(settings.seed);
+  const centroids: RGBColor[] = pinned.length > 0
+    ? pinned.slice(0, count)
+    : [samplePixels[Math.floor(random() * samplePixels.length)]];
+  const nearestDistSq = new Float64Array(samplePixels.length).fill(Infinity);
+  let measured = 0;
+  while (centroids.length < count) {
+      let total = 0;
+      for (; measured < centroids.length; measured++) {
+          const centroidVector = toSpace(centroids[measured]);
+          for (let p = 0; p < samplePixels.length; p++) {
+              const dist = colorSpaceDistance(sampleVectors[p], centroidVector, colorSpace);
+              nearestDistSq[p] = Math.min(nearestDistSq[p], dist * dist);
+          }
+      }
+      for (let p = 0; p < samplePixels.length; p++) {
+          total += nearestDistSq[p];
+      }
+      // 按与已选中心距离的平方加权抽样；所有像素都已被覆盖时退化为均匀抽样
+      let index = Math.floor(random() * samplePixels.length);
+      if (total > 0) {
+          let target = random() * total;
+          for (let p = 0; p < samplePixels.length; p++) {
+              target -= nearestDistSq[p];
+              if (target <= 0) {
+                  index = p;
+                  break;
+              }
+          }
+      }
+      centroids.push(samplePixels[index]);
+  }
+
+  const sampleAssignments = new Array(samplePixels.length);
+  const MAX_ITERATIONS = 30;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    onProgress(`正在聚类颜色（第 ${iter + 1} 轮）...`);
+    const centroidVectors = centroids.map(toSpace);
+    for (let p = 0; p < samplePixels.length; p++) {
+      let minDist = Infinity;
+      let bestCentroid = 0;
+      for (let c = 0; c < centroids.length; c++) {
+        const dist = colorSpaceDistance(sampleVectors[p], centroidVectors[c], colorSpace);
+        if (dist < minDist) {
+          minDist = dist;
+          bestCentroid = c;
+        }
+      }
+      sampleAssignments[p] = bestCentroid;
+    }
+
+    const newCentroids: ColorVector[] = Array.from({ length: count }, () => [0, 0, 0]);
+    const counts = new Array(count).fill(0);
+    for (let p = 0; p < samplePixels.length; p++) {
+      const cIndex = sampleAssignments[p];
+      newCentroids[cIndex][0] += sampleVectors[p][0];
+      newCentroids[cIndex][1] += sampleVectors[p][1];
+      newCentroids[cIndex][2] += sampleVectors[p][2];
+      counts[cIndex]++;
+    }
+
+    let moved = false;
+    for (let c = pinned.length; c < centroids.length; c++) {
+      if (counts[c] > 0) {
+        const newCentroid: RGBColor = fromColorSpace([
+            newCentroids[c][0] / counts[c],
+            newCentroids[c][1] / counts[c],
+            newCentroids[c][2] / counts[c]
+        ], colorSpace);
+        if(colorDistance(newCentroid, centroids[c]) > 1){
+            moved = true;
+        }
+        centroids[c] = newCentroid;
+      } else {
+        const newIndex = Math.floor(random() * samplePixels.length);
+        centroids[c] = samplePixels[newIndex];
+        moved = true;
+      }
+    }
+    if(!moved) break;
+  }
+
+  return centroids;
+};
+
+/**
+ * 把每个像素映射到调色板（可选抖动与边缘保护），ids[i] 是 palette[i] 写入高度图的图层 ID。
+ * 透明像素（去除的背景）直接使用 palette[backgroundIndex]，也不参与误差扩散。
+ * 量化结束和手动编辑调色板之后都通过它重新分配像素。
+ */
+const mapToPalette = (
+  imageData: RasterImage,
+  palette: RGBColor[],
+  ids: number[],
+  backgroundIndex: number,
+  settings: Settings,
+  onProgress: ProgressCallback
+): PaletteAssignment => {
+  const { width, height } = imageData;
+  const pixels = readPixels(imageData);
+  const { colorSpace } = settings;
+  const toSpace = (c: RGBColor) => toColorSpace(c, colorSpace);
+  const processedImageData = createRaster(width, height);
+  const heightMap = new Uint8Array(pixels.length);
+
+  const paletteVectors = palette.map(toSpace);
+
+  // 返回所选颜色空间中最接近的调色板颜色下标
+  const findClosestColor = (vector: ColorVector): number => {
+      let minDist = Infinity;
+      let bestCentroid = 0;
+      for (let c = 0; c < paletteVectors.length; c++) {
+          const dist = colorSpaceDistance(vector, paletteVectors[c], colorSpace);
+          if (dist < minDist) {
+              minDist = dist;
+              bestCentroid = c;
+          }
+      }
+      return bestCentroid;
+  };
+
+  // 增强边缘检测：保护边缘和深色线条
+  const edgeMap = new Float32Array(pixels.length);
+  const darkLineMap = new Float32Array(pixels.length);
+  
+  if (settings.edgePreservation) {
+    onProgress('正在检测边缘...');
+    // 第一步：Sobel边缘检测
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const idx = y * width + x;
+        
+        // 计算灰度值用于边缘检测
+        const getGray = (i: number): number => {
+          if (i < 0 || i >= pixels.length) return 0;
+          const p = pixels[i];
+          return 0.299 * p[0] + 0.587 * p[1] + 0.114 * p[2];
+        };
+        
+        // Sobel算子 - 检测边缘
+        const gx = 
+          -getGray((y-1)*width + (x-1)) + getGray((y-1)*width + (x+1)) +
+          -2*getGray(y*width + (x-1)) + 2*getGray(y*width + (x+1)) +
+          -getGray((y+1)*width + (x-1)) + getGray((y+1)*width + (x+1));
+        
+        const gy = 
+          -getGray((y-1)*width + (x-1)) - 2*getGray((y-1)*width + x) - getGray((y-1)*width + (x+1)) +
+          getGray((y+1)*width + (x-1)) + 2*getGray((y+1)*width + x) + getGray((y+1)*width + (x+1));
+        
+        // 边缘强度 - 使用更敏感的阈值
+        const magnitude = Math.sqrt(gx * gx + gy * gy);
+        edgeMap[idx] = Math.min(1, magnitude / 200); // 降低阈值，更敏感
+        
+        // 第二步：检测深色像素（可能是线条）
+        const currentGray = getGray(idx);
+        const avgNeighborGray = (
+          getGray((y-1)*width + x) + getGray((y+1)*width + x) +
+          getGray(y*width + (x-1)) + getGray(y*width + (x+1))
+        ) / 4;
+        
+        // 如果当前像素比周围暗很多，标记为深色线条
+        const isDarkLine = currentGray < 100 && (avgNeighborGray - currentGray) > 30;
+        darkLineMap[idx] = isDarkLine ? 1.0 : 0.0;
+      }
+    }
+    
+    // 第三步：膨胀操作，扩展边缘保护区域
+    const expandedEdgeMap = new Float32Array(pixels.length);
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const idx = y * width + x;
+        let maxEdge = edgeMap[idx];
+        
+        // 检查周围3x3区域的最大值
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nIdx = (y + dy) * width + (x + dx);
+            if (nIdx >= 0 && nIdx < pixels.length) {
+              maxEdge = Math.max(maxEdge, edgeMap[nIdx]);
+            }
+          }
+        }
+        
+        // 合并边缘和深色线条检测结果
+        expandedEdgeMap[idx] = Math.max(maxEdge, darkLineMap[idx]);
+      }
+    }
+    
+    // 使用膨胀后的边缘图
+    for (let i = 0; i < pixels.length; i++) {
+      edgeMap[i] = expandedEdgeMap[i];
+    }
+  }
+
+  const PROGRESS_ROWS = 32;
+  const reportMatching = (row: number) => onProgress(`正在匹配颜色 ${Math.round((row / height) * 100)}%`);
+
+  const { ditherMethod, ditherStrength, serpentine } = settings;
+
+  const writePixel = (i_1d: number, closest: number) => {
+      const newColor = palette[closest];
+      const i = i_1d * 4;
+      processedImageData.data[i]     = newColor[0];
+      processedImageData.data[i + 1] = newColor[1];
+      processedImageData.data[i + 2] = newColor[2];
+      processedImageData.data[i + 3] = 255;
+      heightMap[i_1d] = ids[closest];
+  };
+
+  // 增强边缘保护：边缘强度超过 0.3 时完全禁用抖动，否则逐渐减弱
+  const edgeFactor = (i_1d: number): number => {
+      const edgeStrength = settings.edgePreservation ? edgeMap[i_1d] : 0;
+      return edgeStrength > 0.3 ? 0 : (1 - edgeStrength * 3);
+  };
+
+  if (!settings.dithering) {
+    for (let i = 0; i < pixels.length; i++) {
+        if (i % (width * PROGRESS_ROWS) === 0) reportMatching(i / width);
+        writePixel(i, isTransparentPixel(imageData, i) ? backgroundIndex : findClosestColor(toSpace(pixels[i])));
+    }
+  } else if (isErrorDiffusion(ditherMethod)) {
+    // 误差在所选颜色空间中扩散
+    const { divisor, taps } = DIFFUSION_KERNELS[ditherMethod];
+    const pixelsFloat = new Float32Array(imageData.data.length);
+    for(let i=0; i < pixels.length; i++) {
+        const vector = toSpace(pixels[i]);
+        pixelsFloat[i * 4]     = vector[0];
+        pixelsFloat[i * 4 + 1] = vector[1];
+        pixelsFloat[i * 4 + 2] = vector[2];
+    }
+
+    for (let y = 0; y < height; y++) {
+        if (y % PROGRESS_ROWS === 0) reportMatching(y);
+        // 蛇形扫描：奇数行从右向左，扩散核随之左右翻转
+        const direction = serpentine && y % 2 === 1 ? -1 : 1;
+        for (let step = 0; step < width; step++) {
+            const x = direction === 1 ? step : width - 1 - step;
+            const i = (y * width + x) * 4;
+            const i_1d = y * width + x;
+            if (isTransparentPixel(imageData, i_1d)) {
+                writePixel(i_1d, backgroundIndex);
+                continue;
+            }
+            
+            const oldVector: ColorVector = [pixelsFloat[i], pixelsFloat[i+1], pixelsFloat[i+2]];
+            const closest = findClosestColor(oldVector);
+            const newVector = paletteVectors[closest];
+            writePixel(i_1d, closest);
+
+            const strength = edgeFactor(i_1d) * ditherStrength;
+            const errR = (oldVector[0] - newVector[0]) * strength;
+            const errG = (oldVector[1] - newVector[1]) * strength;
+            const errB = (oldVector[2] - newVector[2]) * strength;
+
+            for (const [tapX, dy, weight] of taps) {
+                const nx = x + tapX * direction;
+                const ny = y + dy;
+                if (nx >= 0 && nx < width && ny < height) {
+                    const factor = weight / divisor;
+                    const ni = (ny * width + nx) * 4;
+                    pixelsFloat[ni]     = clampColorComponent(pixelsFloat[ni]     + errR * factor, 0, colorSpace);
+                    pixelsFloat[ni + 1] = clampColorComponent(pixelsFloat[ni + 1] + errG * factor, 1, colorSpace);
+                    pixelsFloat[ni + 2] = clampColorComponent(pixelsFloat[ni + 2] + errB * factor, 2, colorSpace);
+                }
+            }
+        }
+    }
+  } else {
+    // 有序抖动：在最近的两种颜色之间按像素在连线上的投影比例混合，
+    // 阈值低于该比例的位置取第二近的颜色
+    for (let y = 0; y < height; y++) {
+        if (y % PROGRESS_ROWS === 0) reportMatching(y);
+        for (let x = 0; x < width; x++) {
+            const i_1d = y * width + x;
+            if (isTransparentPixel(imageData, i_1d)) {
+                writePixel(i_1d, backgroundIndex);
+                continue;
+            }
+            const vector = toSpace(pixels[i_1d]);
+            let first = 0;
+            let second = -1;
+            let firstDist = Infinity;
+            let secondDist = Infinity;
+            for (let c = 0; c < paletteVectors.length; c++) {
+                const dist = colorSpaceDistance(vector, paletteVectors[c], colorSpace);
+                if (dist < firstDist) {
+                    second = first;
+                    secondDist = firstDist;
+                    first = c;
+                    firstDist = dist;
+                } else if (dist < secondDist) {
+                    second = c;
+                    secondDist = dist;
+                }
+            }
+
+            let closest = first;
+            if (second >= 0 && second !== first) {
+                const a = paletteVectors[first];
+                const b = paletteVectors[second];
+                const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+                const lengthSq = ab[0] * ab[0] + ab[1] * ab[1] + ab[2] * ab[2];
+                const t = lengthSq > 0
+                    ? ((vector[0] - a[0]) * ab[0] + (vector[1] - a[1]) * ab[1] + (vector[2] - a[2]) * ab[2]) / lengthSq
+                    : 0;
+                const mix = Math.min(0.5, Math.max(0, t)) * ditherStrength * edgeFactor(i_1d);
+                if (orderedThreshold(ditherMethod, x, y) < mix) closest = second;
+            }
+            writePixel(i_1d, closest);
+        }
+    }
+  }
+
+  return { heightMap, processedImage: processedImageData };
+};
+
+/**
+ * 量化图片并生成初始图层表。亮度浮雕模式下调色板同样来自聚类，
+ * 但像素所属的图层由 depthImage（未提供时为原图）的亮度按高度区间决定。
+ */
+export const quantizeImage = (
+  imageData: RasterImage,
+  settings: Settings,
+  filaments: Filament[],
+  onProgress: ProgressCallback = () => {},
+  depthImage?: RasterImage
+): ProcessedData => {
+  const { width, height } = imageData;
+  // 去除的背景不参与聚类，整张图都透明时退回使用全部像素
+  const pixels = readPixels(imageData);
+  const opaque = pixels.filter((_, i) => !isTransparentPixel(imageData, i));
+  const samples = takeSamples(opaque.length > 0 ? opaque : pixels);
+  // 聚类与最近色匹配都在所选颜色空间中进行
+  const { colorSpace } = settings;
+  const pinned = settings.pinnedColors.map(hexToRgb);
+  let centroids = clusterColors(samples, settings.numColors, settings, pinned, onProgress);
+  
+  // 使用耗材库时，调色板取自用户实际拥有的耗材
+  const filamentByColor = new Map<string, Filament>();
+  // 耗材匹配始终使用感知色差；选择 RGB 时退回 CIELAB
+  const filamentSpace = colorSpace === 'rgb' ? 'lab' : colorSpace;
+  if (settings.paletteSource !== 'auto' && filaments.length > 0) {
+    const swatches = settings.paletteSource === 'pick'
+      ? pickPaletteFromFilaments(samples, filaments, settings.numColors, filamentSpace)
+      : snapPaletteToFilaments(centroids, filaments, filamentSpace);
+    centroids = [];
+    swatches.forEach(({ color, filament }) => {
+      const key = JSON.stringify(color);
+      if (filamentByColor.has(key)) return;
+      filamentByColor.set(key, filament);
+      centroids.push(color);
+    });
+  }
+  
+  const unsortedCentroids = [...centroids];
+  const brightness = (c: RGBColor) => 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2];
+  centroids.sort((a, b) => brightness(a) - brightness(b));
+
+  const colorToSortedIndexMap = new Map<string, number>();
+  centroids.forEach((c, index) => {
+    colorToSortedIndexMap.set(JSON.stringify(c), index);
+  });
+
+  // 初始高度由打印配置决定，保证每次换色都落在真实的打印层上
+  const initialLayers: Layer[] = recalculateLayerHeights(centroids.map((c, i) => {
+    const filament = filamentByColor.get(JSON.stringify(c));
+    return {
+      id: i,
+      color: c,
+      hex: rgbToHex(c[0], c[1], c[2]),
+      height: 0,
+      ...(filament ? { td: filament.td, filamentName: filament.name } : {}),
+    };
+  }), settings);
+  // 透明区域决定 alpha 外形，与调色板无关，后续编辑调色板时保持不变
+  const alphaMask = extractAlphaMask(imageData);
+  const outline = alphaMask ? { alphaMask } : {};
+
+  if (settings.reliefMode === 'luminance') {
+    onProgress('正在按亮度计算高度...');
+    const depthMap = computeDepthMap(depthImage ?? imageData, settings.invertDepth);
+    // 单独的深度图没有去背景，原图中透明的像素同样压到最低
+    for (let i = 0; i < depthMap.length; i++) {
+      if (isTransparentPixel(imageData, i)) depthMap[i] = 0;
+    }
+    const heightMap = assignHeightBands(depthMap, initialLayers);
+    const processedImage = renderPaletteImage(heightMap, initialLayers, width, height);
+    return { layers: initialLayers, processedImage, heightMap, depthMap, ...outline, width, height };
+  }
+
+  const { heightMap, processedImage } = mapToPalette(
+    imageData,
+    unsortedCentroids,
+    unsortedCentroids.map(c => colorToSortedIndexMap.get(JSON.stringify(c)) ?? 0),
+    unsortedCentroids.indexOf(centroids[0]),
+    settings,
+    onProgress
+  );
+
+  return { layers: initialLayers, processedImage, heightMap, ...outline, width, height };
+};
+
+// 按编辑后的调色板（图层表）重新分配所有像素，高度图中写入各图层的 ID，透明像素归入最底层
+export const remapImage = (
+  imageData: RasterImage,
+  layers: Layer[],
+  settings: Settings,
+  onProgress: ProgressCallback = () => {}
+): PaletteAssignment =>
+  mapToPalette(imageData, layers.map(l => l.color), layers.map(l => l.id), 0, settings, onProgress);
@@ -0,0 +1,13 @@
+// 可复现的伪随机数生成器（mulberry32），相同种子得到相同序列
+export const createRandom = (seed: number): (() => number) => {
+  let state = (Math.floor(seed) >>> 0) || 0x9E3779B9;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
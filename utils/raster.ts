@@ -0,0 +1,66 @@
+import { Layer, RasterImage } from '../types';
+
+// RGBA 像素缓冲的创建与缩放，不依赖 canvas，可以在 Worker 和 Node 中使用
+
+export const createRaster = (width: number, height: number): RasterImage => ({
+  data: new Uint8ClampedArray(width * height * 4),
+  width,
+  height,
+});
+
+// alpha 低于一半视为透明：去除的背景或 PNG 的透明区域
+export const isTransparentPixel = (image: RasterImage, index: number): boolean => image.data[index * 4 + 3] < 128;
+
+/**
+ * 按面积加权缩放：目标像素取其覆盖的源像素区域的平均值（包括部分覆盖的边缘像素）。
+ * 缩小时相当于盒式滤波，放大时退化为最近邻。
+ */
+export const resizeRaster = (image: RasterImage, width: number, height: number): RasterImage => {
+  if (image.width === width && image.height === height) return image;
+  const result = createRaster(width, height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  const sums = new Float64Array(4);
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = y * scaleY;
+    const sy1 = sy0 + scaleY;
+    for (let x = 0; x < width; x++) {
+      const sx0 = x * scaleX;
+      const sx1 = sx0 + scaleX;
+      sums.fill(0);
+      let total = 0;
+      for (let sy = Math.floor(sy0); sy < Math.min(image.height, Math.ceil(sy1)); sy++) {
+        const wy = Math.min(sy + 1, sy1) - Math.max(sy, sy0);
+        for (let sx = Math.floor(sx0); sx < Math.min(image.width, Math.ceil(sx1)); sx++) {
+          const weight = wy * (Math.min(sx + 1, sx1) - Math.max(sx, sx0));
+          const i = (sy * image.width + sx) * 4;
+          sums[0] += image.data[i] * weight;
+          sums[1] += image.data[i + 1] * weight;
+          sums[2] += image.data[i + 2] * weight;
+          sums[3] += image.data[i + 3] * weight;
+          total += weight;
+        }
+      }
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        result.data[o + c] = Math.round(sums[c] / total);
+      }
+    }
+  }
+  return result;
+};
+
+// 按高度图中的图层 ID 绘制调色板颜色，即量化结果的预览图
+export const renderPaletteImage = (heightMap: Uint8Array, palette: Layer[], width: number, height: number): RasterImage => {
+  const colorById = new Map(palette.map(layer => [layer.id, layer.color]));
+  const image = createRaster(width, height);
+  for (let i = 0; i < heightMap.length; i++) {
+    const color = colorById.get(heightMap[i]) ?? [0, 0, 0];
+    image.data[i * 4] = color[0];
+    image.data[i * 4 + 1] = color[1];
+    image.data[i * 4 + 2] = color[2];
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+};
@@ -0,0 +1,112 @@
+import { Filament, Layer, MeshBuffers, MeshSettings, PaletteAssignment, ProcessedData, RasterImage, ReliefWorkerRequest, ReliefWorkerResponse, Settings } from '../types';
+
+export interface ReliefWorkerClient {
+  process: (imageData: RasterImage, settings: Settings, filaments: Filament[], onProgress?: (message: string) => void, depthImage?: RasterImage) => Promise<ProcessedData>;
+  remap: (imageData: RasterImage, layers: Layer[], settings: Settings, onProgress?: (message: string) => void) => Promise<PaletteAssignment>;
+  buildMesh: (heightMap: Uint8Array, width: number, height: number, layers: Layer[], settings: MeshSettings, depthMap?: Float32Array, outlineMask?: Uint8Array | null) => Promise<MeshBuffers>;
+  export3MF: (processedData: ProcessedData, layers: Layer[], settings: Settings) => Promise<Blob>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+type WorkerResult = ProcessedData | PaletteAssignment | MeshBuffers | Blob;
+
+interface PendingJob {
+  id: number;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (message: string) => void;
+}
+
+const CANCELLED = 'AbortError';
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof Error && error.name === CANCELLED;
+
+const createCancelledError = (): Error => {
+  const error = new Error("Task cancelled");
+  error.name = CANCELLED;
+  return error;
+};
+
+// 每个客户端同一时间只运行一个任务，发起新任务会取消旧任务
+export const createReliefWorkerClient = (): ReliefWorkerClient => {
+  let worker: Worker | null = null;
+  let pending: PendingJob | null = null;
+  let nextId = 1;
+
+  const settle = (): PendingJob | null => {
+    const job = pending;
+    pending = null;
+    return job;
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('../workers/reliefWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ReliefWorkerResponse>) => {
+        const message = event.data;
+        if (!pending || message.id !== pending.id) return;
+        if (message.type === 'progress') {
+          pending.onProgress?.(message.message);
+          return;
+        }
+        const job = settle();
+        if (message.type === 'error') {
+          job?.reject(new Error(message.message));
+        } else {
+          job?.resolve(message.result);
+        }
+      };
+      worker.onerror = (event) => {
+        settle()?.reject(new Error(event.message || "Worker failed"));
+        worker?.terminate();
+        worker = null;
+      };
+    }
+    return worker;
+  };
+
+  // 同步计算无法中途打断，取消时直接结束整个 Worker，下次任务再重新创建
+  const cancel = () => {
+    const job = settle();
+    if (!job) return;
+    worker?.terminate();
+    worker = null;
+    job.reject(createCancelledError());
+  };
+
+  const run = <T extends WorkerResult>(
+    createRequest: (id: number) => ReliefWorkerRequest,
+    transfer: Transferable[],
+    onProgress?: (message: string) => void
+  ): Promise<T> => {
+    cancel();
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending = { id, resolve: resolve as (result: WorkerResult) => void, reject, onProgress };
+      getWorker().postMessage(createRequest(id), transfer);
+    });
+  };
+
+  return {
+    process: (imageData, settings, filaments, onProgress, depthImage) =>
+      run<ProcessedData>(
+        id => ({ type: 'process', id, imageData, depthImage, settings, filaments }),
+        depthImage ? [imageData.data.buffer, depthImage.data.buffer] : [imageData.data.buffer],
+        onProgress
+      ),
+    remap: (imageData, layers, settings, onProgress) =>
+      run<PaletteAssignment>(id => ({ type: 'remap', id, imageData, layers, settings }), [imageData.data.buffer], onProgress),
+    buildMesh: (heightMap, width, height, layers, settings, depthMap, outlineMask) =>
+      run<MeshBuffers>(id => ({ type: 'mesh', id, heightMap, depthMap, outlineMask: outlineMask ?? undefined, width, height, layers, settings }), []),
+    export3MF: (processedData, layers, settings) =>
+      run<Blob>(id => ({ type: '3mf', id, processedData, layers, settings }), []),
+    cancel,
+    dispose: () => {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
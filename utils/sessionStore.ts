@@ -0,0 +1,48 @@
+import { ProjectSnapshot, Settings } from '../types';
+import { mergeSettings } from './settings';
+
+// 当前会话自动保存到 IndexedDB。快照直接以结构化克隆写入，
+// 原图 data URL、高度图和预览 ImageData 都不需要额外编码
+
+const DB_NAME = 'multi-color-relief';
+const DB_VERSION = 1;
+const STORE_NAME = 'session';
+const SESSION_KEY = 'current';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveSession = async (snapshot: ProjectSnapshot): Promise<void> => {
+  await runRequest('readwrite', store => store.put(snapshot, SESSION_KEY));
+};
+
+// 没有保存的会话时返回 null；旧版本缺少的参数使用 defaults 补齐
+export const loadSession = async (defaults: Settings): Promise<ProjectSnapshot | null> => {
+  const stored = await runRequest<ProjectSnapshot | undefined>('readonly', store => store.get(SESSION_KEY));
+  if (!stored) return null;
+  return { ...stored, depthSrc: stored.depthSrc ?? null, settings: mergeSettings(defaults, stored.settings) };
+};
@@ -0,0 +1,94 @@
+import { FrameSettings, PreprocessSettings, Settings, TextLabel } from '../types';
+
+// 默认参数与工作分辨率，网页和命令行共用
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  crop: null,
+  cropAspect: null,
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  blurRadius: 0,
+  denoise: false,
+  background: 'none',
+  backgroundColor: '#FFFFFF',
+  backgroundTolerance: 20,
+};
+
+export const DEFAULT_FRAME: FrameSettings = {
+  width: 0,
+  height: 1,
+  layer: 0,
+  chamfer: 0,
+  hanger: 'none',
+  hangerX: 0.5,
+  hangerY: 0.08,
+  hangerDiameter: 5,
+};
+
+// 新建文字标签时的参数
+export const DEFAULT_LABEL: TextLabel = {
+  text: '',
+  font: 'sans-serif',
+  bold: true,
+  size: 8,
+  x: 0.5,
+  y: 0.9,
+  layer: 0,
+  mode: 'raised',
+  depth: 0.6,
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  numColors: 4,
+  pinnedColors: [],
+  baseThickness: 0.8,
+  modelWidth: 100,
+  pixelSize: 0.4,
+  dithering: true,
+  ditherMethod: 'floyd-steinberg',
+  serpentine: false,
+  ditherStrength: 1,
+  edgePreservation: false,
+  firstLayerHeight: 0.16,
+  layerHeight: 0.08,
+  firstColorLayers: 8,
+  layersPerColor: 2,
+  paletteSource: 'auto',
+  colorSpace: 'rgb',
+  seed: 1,
+  geometryMode: 'smooth',
+  reliefMode: 'color',
+  invertDepth: false,
+  outline: 'rectangle',
+  cornerRadius: 5,
+  frame: DEFAULT_FRAME,
+  labels: [],
+  preprocess: DEFAULT_PREPROCESS,
+};
+
+// 补齐旧版本项目或会话中缺少的参数，嵌套的边框和预处理参数也逐项补齐
+export const mergeSettings = (defaults: Settings, saved: Partial<Settings> | undefined): Settings => ({
+  ...defaults,
+  ...saved,
+  frame: { ...defaults.frame, ...saved?.frame },
+  preprocess: { ...defaults.preprocess, ...saved?.preprocess },
+});
+
+// 工作分辨率上限，防止过小的线宽导致浏览器卡死
+export const MAX_WORKING_DIM = 1024;
+
+// 工作分辨率由模型宽度和喷嘴线宽（pixelSize）决定：每个像素对应一条挤出线宽
+export const getWorkingResolution = (imageWidth: number, imageHeight: number, settings: Settings): { width: number; height: number } => {
+  let width = Math.max(2, Math.round(settings.modelWidth / settings.pixelSize));
+  let height = Math.max(2, Math.round(width * imageHeight / imageWidth));
+  const scale = Math.min(1, MAX_WORKING_DIM / Math.max(width, height));
+  if (scale < 1) {
+    width = Math.max(2, Math.round(width * scale));
+    height = Math.max(2, Math.round(height * scale));
+  }
+  return { width, height };
+};
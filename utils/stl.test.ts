@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { generateRelief } from '../lib';
+import { GeometryMode, Layer } from '../types';
+import { buildReliefMesh } from './mesh';
+import { createRaster } from './raster';
+import { DEFAULT_SETTINGS } from './settings';
+import { generateSTL } from './stl';
+
+// 字节级的 STL 基准文件。修改网格或导出逻辑后若输出有意变化，
+// 用 UPDATE_GOLDEN=1 npm test 重新生成，并在提交前用切片软件检查新文件
+const GOLDEN_DIR = join(dirname(fileURLToPath(import.meta.url)), '__golden__');
+
+const expectGolden = (name: string, buffer: ArrayBuffer) => {
+  const path = join(GOLDEN_DIR, name);
+  const actual = new Uint8Array(buffer);
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(path, actual);
+  }
+  expect(existsSync(path), `missing golden file ${name}`).toBe(true);
+  const expected = new Uint8Array(readFileSync(path));
+  expect(actual.length).toBe(expected.length);
+  expect(Buffer.compare(actual, expected)).toBe(0);
+};
+
+const LAYERS: Layer[] = [
+  { id: 0, color: [0, 0, 0], hex: '#000000', height: 0.64 },
+  { id: 1, color: [255, 255, 255], hex: '#FFFFFF', height: 0.8 },
+];
+
+// 3 × 2 像素，中间一列抬高
+const HEIGHT_MAP = Uint8Array.from([0, 1, 0, 0, 1, 1]);
+
+const meshStl = (geometryMode: GeometryMode): ArrayBuffer => {
+  const mesh = buildReliefMesh(HEIGHT_MAP, 3, 2, LAYERS, { ...DEFAULT_SETTINGS, modelWidth: 30, geometryMode });
+  return generateSTL(mesh.positions, mesh.indices);
+};
+
+describe('generateSTL', () => {
+  it('writes an 80-byte header, the triangle count and 50 bytes per triangle', () => {
+    const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const buffer = generateSTL(positions, [0, 1, 2]);
+    const view = new DataView(buffer);
+    expect(buffer.byteLength).toBe(84 + 50);
+    expect(new Uint8Array(buffer, 0, 80).every(byte => byte === 0)).toBe(true);
+    expect(view.getUint32(80, true)).toBe(1);
+    // 逆时针三角形的法线朝 +Z
+    expect([view.getFloat32(84, true), view.getFloat32(88, true), view.getFloat32(92, true)]).toEqual([0, 0, 1]);
+    expect(view.getFloat32(96 + 12, true)).toBe(1);
+    expect(view.getUint16(132, true)).toBe(0);
+  });
+
+  it('matches the smooth relief golden file', () => {
+    expectGolden('smooth-3x2.stl', meshStl('smooth'));
+  });
+
+  it('matches the terraced relief golden file', () => {
+    expectGolden('terraced-3x2.stl', meshStl('terraced'));
+  });
+
+  it('matches the golden file for the full pipeline on a synthetic image', () => {
+    // 8 × 6 的四色棋盘块，线宽设为每像素 1mm，工作分辨率与原图一致
+    const image = createRaster(8, 6);
+    const colors = [[230, 40, 40], [40, 40, 200], [250, 250, 250], [20, 20, 20]];
+    for (let y = 0; y < 6; y++) {
+      for (let x = 0; x < 8; x++) {
+        image.data.set([...colors[(Math.floor(x / 4) + 2 * Math.floor(y / 3)) % 4], 255], (y * 8 + x) * 4);
+      }
+    }
+    const { processed, mesh } = generateRelief(image, { ...DEFAULT_SETTINGS, modelWidth: 8, pixelSize: 1, numColors: 4 });
+    expect(processed.width).toBe(8);
+    expect(processed.layers.map(l => l.hex)).toEqual(['#141414', '#2828C8', '#E62828', '#FAFAFA']);
+    expectGolden('pipeline-8x6.stl', generateSTL(mesh.positions, mesh.indices));
+  });
+});
@@ -0,0 +1,41 @@
+// 二进制 STL：80 字节文件头、三角形数量，之后每个三角形 50 字节（法线、三个顶点、属性字节数）
+
+export const generateSTL = (positions: ArrayLike<number>, indices: ArrayLike<number>): ArrayBuffer => {
+  const triangles = Math.floor(indices.length / 3);
+  const buffer = new ArrayBuffer(84 + triangles * 50);
+  const view = new DataView(buffer);
+  let offset = 80;
+
+  view.setUint32(offset, triangles, true);
+  offset += 4;
+
+  for (let i = 0; i < triangles; i++) {
+    const i0 = indices[i * 3] * 3;
+    const i1 = indices[i * 3 + 1] * 3;
+    const i2 = indices[i * 3 + 2] * 3;
+    const ax = positions[i0], ay = positions[i0 + 1], az = positions[i0 + 2];
+    const bx = positions[i1], by = positions[i1 + 1], bz = positions[i1 + 2];
+    const cx = positions[i2], cy = positions[i2 + 1], cz = positions[i2 + 2];
+
+    // 法线由顶点顺序按右手定则计算
+    const ux = bx - ax, uy = by - ay, uz = bz - az;
+    const vx = cx - ax, vy = cy - ay, vz = cz - az;
+    let nx = uy * vz - uz * vy;
+    let ny = uz * vx - ux * vz;
+    let nz = ux * vy - uy * vx;
+    const scale = 1 / (Math.sqrt(nx * nx + ny * ny + nz * nz) || 1);
+    nx *= scale;
+    ny *= scale;
+    nz *= scale;
+
+    for (const value of [nx, ny, nz, ax, ay, az, bx, by, bz, cx, cy, cz]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    // Attribute byte count
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  }
+
+  return buffer;
+};
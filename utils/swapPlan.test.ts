@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Layer } from '../types';
+import { buildSwapPlan, formatSwapPlanGcode, formatSwapPlanText } from './swapPlan';
+
+// 首层 0.16mm、层高 0.08mm，第 n 层的层顶为 0.16 + (n - 1) × 0.08
+const layer = (id: number, hex: string, height: number): Layer => ({ id, color: [0, 0, 0], hex, height });
+
+describe('buildSwapPlan', () => {
+  it('swaps on the layer after each color ends when heights sit on layer boundaries', () => {
+    const plan = buildSwapPlan([layer(0, '#000000', 0.64), layer(1, '#FFFFFF', 0.8), layer(2, '#FF0000', 0.96)], 0.16, 0.08);
+    expect(plan.startHex).toBe('#000000');
+    expect(plan.totalLayers).toBe(11);
+    expect(plan.warnings).toEqual([]);
+    expect(plan.swaps).toEqual([
+      { layerNumber: 8, z: 0.72, startHeight: 0.64, fromHex: '#000000', toHex: '#FFFFFF' },
+      { layerNumber: 10, z: 0.88, startHeight: 0.8, fromHex: '#FFFFFF', toHex: '#FF0000' },
+    ]);
+  });
+
+  it('snaps heights between layer boundaries and warns about it', () => {
+    const plan = buildSwapPlan([layer(0, '#000000', 0.64), layer(1, '#FFFFFF', 0.83)], 0.16, 0.08);
+    expect(plan.totalLayers).toBe(9);
+    expect(plan.swaps).toEqual([{ layerNumber: 8, z: 0.72, startHeight: 0.64, fromHex: '#000000', toHex: '#FFFFFF' }]);
+    expect(plan.warnings).toEqual(['图层 2（#FFFFFF）高度 0.83mm 不在打印层边界上，已吸附到 0.80mm']);
+  });
+
+  it('drops a color that is not at least one print layer thick', () => {
+    const plan = buildSwapPlan([layer(0, '#000000', 0.64), layer(1, '#FFFFFF', 0.64), layer(2, '#FF0000', 0.8)], 0.16, 0.08);
+    expect(plan.swaps).toEqual([{ layerNumber: 8, z: 0.72, startHeight: 0.64, fromHex: '#000000', toHex: '#FF0000' }]);
+    expect(plan.warnings).toEqual(['图层 2（#FFFFFF）不足一个打印层厚，不会被打印']);
+    expect(plan.totalLayers).toBe(9);
+  });
+
+  it('returns an empty plan for an empty layer table', () => {
+    expect(buildSwapPlan([], 0.16, 0.08)).toEqual({ firstLayerHeight: 0.16, layerHeight: 0.08, startHex: '', totalLayers: 0, swaps: [], warnings: [] });
+  });
+});
+
+describe('formatSwapPlanGcode', () => {
+  it('emits M600 on the 0-based layer_num of each swap layer', () => {
+    const plan = buildSwapPlan([layer(0, '#000000', 0.64), layer(1, '#FFFFFF', 0.8), layer(2, '#FF0000', 0.96)], 0.16, 0.08);
+    const lines = formatSwapPlanGcode(plan).trimEnd().split('\n');
+    expect(lines.filter(line => !line.startsWith(';'))).toEqual([
+      '{if layer_num == 7}M600 ; Z=0.72 换为 #FFFFFF{endif}',
+      '{if layer_num == 9}M600 ; Z=0.88 换为 #FF0000{endif}',
+    ]);
+    expect(lines).toContain('; 起始颜色: #000000');
+  });
+});
+
+describe('formatSwapPlanText', () => {
+  it('lists each swap with its 1-based layer number', () => {
+    const plan = buildSwapPlan([layer(0, '#000000', 0.64), layer(1, '#FFFFFF', 0.8)], 0.16, 0.08);
+    const text = formatSwapPlanText(plan);
+    expect(text).toContain('第 8 层 (Z=0.72mm，自 0.64mm 起) 暂停并换为: #FFFFFF（原 #000000）');
+    expect(text).toContain('换色层号: 8');
+    expect(text).toContain('共 9 层');
+  });
+});
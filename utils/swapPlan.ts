@@ -0,0 +1,81 @@
+import { Layer, SwapPlan, ColorSwap } from '../types';
+import { layerTopZ, snapToLayerNumber } from './layers';
+
+// 换色计划：根据图层累积高度和打印层高，计算每次换料所在的真实打印层
+
+export const buildSwapPlan = (layers: Layer[], firstLayerHeight: number, layerHeight: number): SwapPlan => {
+  const swaps: ColorSwap[] = [];
+  const warnings: string[] = [];
+  let current: Layer | null = null;
+  let currentTop = 0;
+
+  layers.forEach((layer, index) => {
+    const top = snapToLayerNumber(layer.height, firstLayerHeight, layerHeight);
+    const snappedZ = layerTopZ(top, firstLayerHeight, layerHeight);
+    if (Math.abs(snappedZ - layer.height) > 0.001) {
+      warnings.push(`图层 ${index + 1}（${layer.hex}）高度 ${layer.height.toFixed(2)}mm 不在打印层边界上，已吸附到 ${snappedZ.toFixed(2)}mm`);
+    }
+    if (current && top <= currentTop) {
+      warnings.push(`图层 ${index + 1}（${layer.hex}）不足一个打印层厚，不会被打印`);
+      return;
+    }
+    if (current) {
+      // 新颜色从上一颜色最后一层的下一层开始
+      const layerNumber = currentTop + 1;
+      swaps.push({
+        layerNumber,
+        z: layerTopZ(layerNumber, firstLayerHeight, layerHeight),
+        startHeight: layerTopZ(currentTop, firstLayerHeight, layerHeight),
+        fromHex: current.hex,
+        toHex: layer.hex,
+      });
+    }
+    current = layer;
+    currentTop = top;
+  });
+
+  return {
+    firstLayerHeight,
+    layerHeight,
+    startHex: layers[0]?.hex ?? '',
+    totalLayers: currentTop,
+    swaps,
+    warnings,
+  };
+};
+
+export const formatSwapPlanText = (plan: SwapPlan): string => {
+  const lines: string[] = [
+    'MultiColor Relief 换色计划',
+    `首层层高: ${plan.firstLayerHeight.toFixed(2)} mm, 层高: ${plan.layerHeight.toFixed(2)} mm`,
+    '',
+    `第 1 层开始使用: ${plan.startHex}`,
+  ];
+  plan.swaps.forEach(swap => {
+    lines.push(`第 ${swap.layerNumber} 层 (Z=${swap.z.toFixed(2)}mm，自 ${swap.startHeight.toFixed(2)}mm 起) 暂停并换为: ${swap.toHex}（原 ${swap.fromHex}）`);
+  });
+  lines.push(`共 ${plan.totalLayers} 层`);
+  lines.push('');
+  lines.push(`换色层号: ${plan.swaps.map(s => s.layerNumber).join(', ') || '无'}`);
+  if (plan.warnings.length > 0) {
+    lines.push('');
+    lines.push('注意:');
+    plan.warnings.forEach(w => lines.push(`- ${w}`));
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const formatSwapPlanJson = (plan: SwapPlan): string => JSON.stringify(plan, null, 2) + '\n';
+
+// PrusaSlicer / OrcaSlicer 的 layer_num 从 0 开始，粘贴到“换层后 G-code”中使用
+export const formatSwapPlanGcode = (plan: SwapPlan): string => {
+  const lines: string[] = [
+    '; MultiColor Relief 换色 G-code',
+    '; 粘贴到切片软件的 "After layer change G-code"（换层后 G-code）中',
+    `; 起始颜色: ${plan.startHex}`,
+  ];
+  plan.swaps.forEach(swap => {
+    lines.push(`{if layer_num == ${swap.layerNumber - 1}}M600 ; Z=${swap.z.toFixed(2)} 换为 ${swap.toHex}{endif}`);
+  });
+  return lines.join('\n') + '\n';
+};
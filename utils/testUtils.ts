@@ -0,0 +1,19 @@
+import { Layer } from '../types';
+
+// 测试共用的图层表与掩码绘制，只在测试中导入
+
+// 黑、白、红三个图层，高度对应默认的 0.08mm 层厚
+export const LAYERS: Layer[] = [
+  { id: 0, color: [0, 0, 0], hex: '#000000', height: 0.64 },
+  { id: 1, color: [255, 255, 255], hex: '#FFFFFF', height: 0.8 },
+  { id: 2, color: [255, 0, 0], hex: '#FF0000', height: 0.96 },
+];
+
+// 把掩码画成字符行（# 为 1，. 为 0），便于直接比较形状
+export const draw = (mask: Uint8Array, width: number): string[] => {
+  const rows: string[] = [];
+  for (let i = 0; i < mask.length; i += width) {
+    rows.push(Array.from(mask.subarray(i, i + width), v => (v ? '#' : '.')).join(''));
+  }
+  return rows;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { TextLabel } from '../types';
+import { buildReliefMesh } from './mesh';
+import { validateMesh } from './meshValidation';
+import { DEFAULT_LABEL, DEFAULT_SETTINGS } from './settings';
+import { LAYERS, draw } from './testUtils';
+import { PIXEL_FONT, labelLayerIndex, labelTopIndex, rasterizeLabel, resolveLabelMasks } from './text';
+
+const label = (patch: Partial<TextLabel>): TextLabel => ({ ...DEFAULT_LABEL, font: PIXEL_FONT, ...patch });
+
+describe('rasterizeLabel', () => {
+  it('draws pixel-font glyphs one cell per pixel', () => {
+    // 字高 7 像素时点阵单元格与像素一一对应
+    const mask = rasterizeLabel(label({ text: 'Hi', size: 7, x: 0.5, y: 0.5 }), 13, 9, 1);
+    expect(draw(mask, 13)).toEqual([
+      '.............',
+      '.#...#..###..',
+      '.#...#...#...',
+      '.#...#...#...',
+      '.#####...#...',
+      '.#...#...#...',
+      '.#...#...#...',
+      '.#...#..###..',
+      '.............',
+    ]);
+  });
+
+  it('scales with the text size in millimeters', () => {
+    const count = (mask: Uint8Array) => mask.reduce((sum, v) => sum + v, 0);
+    const small = rasterizeLabel(label({ text: 'I', size: 7, x: 0.5, y: 0.5 }), 40, 40, 1);
+    const large = rasterizeLabel(label({ text: 'I', size: 7, x: 0.5, y: 0.5 }), 40, 40, 0.5);
+    expect(count(large)).toBe(count(small) * 4);
+  });
+
+  it('stacks lines around the center and clips at the image edge', () => {
+    const mask = rasterizeLabel(label({ text: '-\n-', size: 7, x: 0.5, y: 0.5 }), 5, 16, 1);
+    expect(draw(mask, 5).map((row, y) => row === '#####' ? y : -1).filter(y => y >= 0)).toEqual([3, 12]);
+    expect(rasterizeLabel(label({ text: 'WIDE TEXT', size: 7, x: 0, y: 0 }), 10, 10, 1).some(v => v === 1)).toBe(true);
+  });
+
+  it('falls back to the pixel font without a browser canvas', () => {
+    const pixel = rasterizeLabel(label({ text: 'A1' }), 60, 30, 0.5);
+    expect(rasterizeLabel(label({ text: 'A1', font: 'serif' }), 60, 30, 0.5)).toEqual(pixel);
+  });
+});
+
+describe('resolveLabelMasks', () => {
+  it('skips empty labels', () => {
+    const settings = { modelWidth: 20, labels: [label({ text: ' ' }), label({ text: 'OK' })] };
+    expect(resolveLabelMasks(20, 20, settings).map(m => m.label.text)).toEqual(['OK']);
+  });
+});
+
+describe('labelTopIndex', () => {
+  it('raises text to its layer and only lowers pixels when engraving', () => {
+    expect(labelTopIndex(label({ mode: 'raised' }), 1, 2)).toBe(1);
+    expect(labelTopIndex(label({ mode: 'engraved' }), 1, 2)).toBe(1);
+    expect(labelTopIndex(label({ mode: 'engraved' }), 1, 0)).toBe(0);
+    expect(labelLayerIndex(LAYERS, label({ layer: 5 }))).toBe(2);
+  });
+});
+
+describe('buildReliefMesh (labels)', () => {
+  const width = 30;
+  const height = 20;
+  const heightMap = new Uint8Array(width * height).fill(2);
+
+  it('raises text above its layer and engraves text down to it', () => {
+    const base = DEFAULT_SETTINGS.baseThickness;
+    for (const geometryMode of ['smooth', 'terraced'] as const) {
+      const raised = { ...DEFAULT_SETTINGS, modelWidth: 30, geometryMode, labels: [label({ text: 'AB', size: 7, layer: 2, depth: 0.6 })] };
+      const mesh = buildReliefMesh(heightMap, width, height, LAYERS, raised);
+      expect(validateMesh(mesh.positions, mesh.indices).isValid, geometryMode).toBe(true);
+      expect(mesh.depth).toBeCloseTo(base + 0.96 + 0.6, 5);
+
+      const engraved = { ...raised, labels: [label({ text: 'AB', size: 7, layer: 0, mode: 'engraved' })] };
+      const cut = buildReliefMesh(heightMap, width, height, LAYERS, engraved);
+      const report = validateMesh(cut.positions, cut.indices);
+      const plainMesh = buildReliefMesh(heightMap, width, height, LAYERS, { ...raised, labels: [] });
+      const plain = validateMesh(plainMesh.positions, plainMesh.indices);
+      expect(report.isValid, geometryMode).toBe(true);
+      expect(report.signedVolume).toBeLessThan(plain.signedVolume);
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { Layer, Settings, TextLabel } from '../types';
+
+// 文字标签：把字符串栅格化为工作分辨率下的像素掩码，预览、网格和 3MF 共用。
+// 凸起文字把像素改为所选图层的颜色并抬高；刻字把像素降低到所选图层的顶面
+
+// 内置 5×7 点阵字体，每个字形 7 行，每行低 5 位从左到右。小写字母按大写显示，未收录的字符显示为问号
+const PIXEL_GLYPHS: Record<string, number[]> = {
+  ' ': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  A: [0x0e, 0x11, 0x11, 0x11, 0x1f, 0x11, 0x11],
+  B: [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  C: [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  D: [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  E: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  F: [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  G: [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  H: [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  I: [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  J: [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  K: [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  L: [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  M: [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  N: [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  O: [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  P: [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  Q: [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  R: [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  S: [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  T: [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  U: [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  V: [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  W: [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  X: [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  Y: [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  Z: [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  '!': [0x04, 0x04, 0x04, 0x04, 0x04, 0x00, 0x04],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04],
+  "'": [0x0c, 0x04, 0x08, 0x00, 0x00, 0x00, 0x00],
+  '&': [0x0c, 0x12, 0x14, 0x08, 0x15, 0x12, 0x0d],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '#': [0x0a, 0x0a, 0x1f, 0x0a, 0x1f, 0x0a, 0x0a],
+};
+
+export const PIXEL_FONT = 'pixel';
+
+const glyphFor = (char: string): number[] => PIXEL_GLYPHS[char.toUpperCase()] ?? PIXEL_GLYPHS['?'];
+
+/**
+ * 用内置点阵字体栅格化文字。字高 sizePx 对应字形的 7 行，字符间隔 1 列、行距 2 行，
+ * 按像素中心落在哪个点阵单元格取值，多行文字逐行居中。
+ */
+const rasterizePixelFont = (lines: string[], width: number, height: number, cx: number, cy: number, sizePx: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const cell = sizePx / 7;
+  const blockHeight = (lines.length * 9 - 2) * cell;
+  lines.forEach((line, row) => {
+    const chars = Array.from(line);
+    const left = cx - ((chars.length * 6 - 1) * cell) / 2;
+    const top = cy - blockHeight / 2 + row * 9 * cell;
+    const x0 = Math.max(0, Math.floor(left));
+    const x1 = Math.min(width, Math.ceil(left + chars.length * 6 * cell));
+    const y0 = Math.max(0, Math.floor(top));
+    const y1 = Math.min(height, Math.ceil(top + 7 * cell));
+    for (let y = y0; y < y1; y++) {
+      const gy = Math.floor((y + 0.5 - top) / cell);
+      if (gy < 0 || gy > 6) continue;
+      for (let x = x0; x < x1; x++) {
+        const u = Math.floor((x + 0.5 - left) / cell);
+        if (u < 0) continue;
+        const gx = u % 6;
+        const char = chars[(u - gx) / 6];
+        if (gx < 5 && char !== undefined && (glyphFor(char)[gy] >> (4 - gx)) & 1) mask[y * width + x] = 1;
+      }
+    }
+  });
+  return mask;
+};
+
+// 用浏览器字体栅格化文字，OffscreenCanvas 在页面和 Worker 中都可用；不支持时返回 null
+const rasterizeCanvasFont = (label: TextLabel, lines: string[], width: number, height: number, cx: number, cy: number, sizePx: number): Uint8Array | null => {
+  if (typeof OffscreenCanvas === 'undefined') return null;
+  const ctx = new OffscreenCanvas(width, height).getContext('2d');
+  if (!ctx) return null;
+  const lineHeight = sizePx * 1.2;
+  ctx.font = `${label.bold ? 'bold ' : ''}${sizePx}px ${label.font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#000';
+  lines.forEach((line, row) => {
+    ctx.fillText(line, cx, cy + (row - (lines.length - 1) / 2) * lineHeight);
+  });
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (data[i * 4 + 3] >= 128) mask[i] = 1;
+  }
+  return mask;
+};
+
+/**
+ * 把文字标签栅格化为 width × height 的像素掩码，pixelSize 为每个像素的边长（mm）。
+ * 字体不是内置点阵字体、但当前环境不能使用浏览器字体（命令行）时，退回点阵字体。
+ */
+export const rasterizeLabel = (label: TextLabel, width: number, height: number, pixelSize: number): Uint8Array => {
+  const lines = label.text.split('\n');
+  const sizePx = Math.max(1, label.size / pixelSize);
+  const cx = label.x * width;
+  const cy = label.y * height;
+  const canvasMask = label.font === PIXEL_FONT ? null : rasterizeCanvasFont(label, lines, width, height, cx, cy, sizePx);
+  return canvasMask ?? rasterizePixelFont(lines, width, height, cx, cy, sizePx);
+};
+
+export interface LabelMask {
+  label: TextLabel;
+  mask: Uint8Array;
+}
+
+// 当前参数下所有非空文字标签的掩码，按列表顺序叠加，后面的标签覆盖前面的
+export const resolveLabelMasks = (width: number, height: number, settings: Pick<Settings, 'labels' | 'modelWidth'>): LabelMask[] =>
+  settings.labels
+    .filter(label => label.text.trim() !== '' && label.size > 0)
+    .map(label => ({ label, mask: rasterizeLabel(label, width, height, settings.modelWidth / width) }));
+
+// 标签所在图层在图层表中的序号，超出范围时取最近的图层
+export const labelLayerIndex = (layers: Layer[], label: TextLabel): number =>
+  Math.max(0, Math.min(layers.length - 1, Math.round(label.layer)));
+
+/**
+ * 文字覆盖后像素露出的图层序号：凸起文字为所选图层，刻字只会把更高的像素降到所选图层。
+ */
+export const labelTopIndex = (label: TextLabel, layerIndex: number, currentIndex: number): number =>
+  label.mode === 'raised' ? layerIndex : Math.min(currentIndex, layerIndex);
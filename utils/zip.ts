@@ -0,0 +1,108 @@
+// 最小化的 ZIP 打包工具，用于生成 3MF 等基于 ZIP 的文件格式
+
+export interface ZipEntry {
+  name: string;
+  // 大文件可以分块传入，不必先拼接成一个数组
+  data: Uint8Array | Uint8Array[];
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (chunks: Uint8Array[]): number => {
+  let crc = 0xFFFFFFFF;
+  for (const data of chunks) {
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// 浏览器支持 CompressionStream 时使用 deflate 压缩，否则以存储方式写入
+const deflateRaw = async (chunks: Uint8Array[]): Promise<Uint8Array | null> => {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob(chunks).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// 固定的 DOS 时间戳（1980-01-01），保证相同输入生成相同文件
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+export const createZip = async (entries: ZipEntry[], mimeType: string): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const chunks = Array.isArray(entry.data) ? entry.data : [entry.data];
+    const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const crc = crc32(chunks);
+    const compressed = await deflateRaw(chunks);
+    const useDeflate = compressed !== null && compressed.length < size;
+    const payload = useDeflate ? [compressed] : chunks;
+    const payloadSize = useDeflate ? compressed.length : size;
+    const method = useDeflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 文件名
+    local.setUint16(8, method, true);
+    local.setUint16(10, DOS_TIME, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, payloadSize, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014B50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, DOS_TIME, true);
+    central.setUint16(14, DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, payloadSize, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint16(30, 0, true);
+    central.setUint16(32, 0, true);
+    central.setUint16(34, 0, true);
+    central.setUint16(36, 0, true);
+    central.setUint32(38, 0, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, ...payload);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + payloadSize;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(4, 0, true);
+  end.setUint16(6, 0, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, 0, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: mimeType });
+};
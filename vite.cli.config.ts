@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// 命令行工具打包为单个 Node 脚本：npm run build:cli 之后运行 node dist-cli/relief.js
+export default defineConfig({
+  build: {
+    ssr: 'cli/relief.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'relief.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,39 @@
+import { ReliefWorkerRequest, ReliefWorkerResponse } from '../types';
+import { quantizeImage, remapImage } from '../utils/quantize';
+import { buildReliefMesh } from '../utils/mesh';
+import { generate3MF } from '../utils/export3mf';
+
+// 图片量化、网格生成和 3MF 导出在此 Worker 中运行，避免阻塞页面
+const workerScope = self as unknown as Worker;
+
+const post = (message: ReliefWorkerResponse, transfer: Transferable[] = []) => {
+  workerScope.postMessage(message, transfer);
+};
+
+workerScope.onmessage = async (event: MessageEvent<ReliefWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'process') {
+      const result = quantizeImage(request.imageData, request.settings, request.filaments, message => {
+        post({ type: 'progress', id: request.id, message });
+      }, request.depthImage);
+      const transfer: Transferable[] = [result.heightMap.buffer, result.processedImage.data.buffer];
+      if (result.depthMap) transfer.push(result.depthMap.buffer);
+      if (result.alphaMask) transfer.push(result.alphaMask.buffer);
+      post({ type: 'processed', id: request.id, result }, transfer);
+    } else if (request.type === 'remap') {
+      const result = remapImage(request.imageData, request.layers, request.settings, message => {
+        post({ type: 'progress', id: request.id, message });
+      });
+      post({ type: 'remapped', id: request.id, result }, [result.heightMap.buffer, result.processedImage.data.buffer]);
+    } else if (request.type === '3mf') {
+      const result = await generate3MF(request.processedData, request.layers, request.settings);
+      post({ type: '3mf', id: request.id, result });
+    } else {
+      const result = buildReliefMesh(request.heightMap, request.width, request.height, request.layers, request.settings, request.depthMap, request.outlineMask);
+      post({ type: 'mesh', id: request.id, result }, [result.positions.buffer, result.indices.buffer, result.uvs.buffer]);
+    }
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};